@@ -0,0 +1,307 @@
+import React from 'react';
+import { Connection, ConnectionType, Graph } from '@/utils/routeOptimization';
+import { ConnectionRef } from '@/utils/avoidance';
+import { RoadClass, Surface } from '@/utils/roadAttributes';
+import { profileTime, TRAVEL_PROFILES } from '@/utils/travelModes';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DraftInput from '@/components/DraftInput';
+import { Trash2 } from 'lucide-react';
+
+interface ConnectionPanelProps {
+  graph: Graph;
+  // The connection being edited; also selectable by clicking it on the map
+  selected: ConnectionRef | null;
+  onSelect: (ref: ConnectionRef | null) => void;
+  onUpdateConnection: (ref: ConnectionRef, changes: Partial<Connection>) => void;
+  onDeleteConnection: (ref: ConnectionRef) => void;
+  // Whether new destinations are connected to every existing point
+  autoConnect: boolean;
+  onAutoConnectChange: (autoConnect: boolean) => void;
+}
+
+const typeLabels: Record<ConnectionType, string> = {
+  motorway: 'Motorway',
+  road: 'Road',
+  cycleway: 'Cycleway',
+  footpath: 'Footpath'
+};
+
+const roadClassLabels: Record<RoadClass, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  residential: 'Residential',
+  service: 'Service road'
+};
+
+const surfaceLabels: Record<Surface, string> = {
+  paved: 'Paved',
+  gravel: 'Gravel',
+  unpaved: 'Unpaved'
+};
+
+// Select value for a connection without a road class
+const UNCLASSIFIED = '__none__';
+
+// Select value for a connection without a speed profile
+const FREE_FLOW = '__free_flow__';
+
+const connectionKey = (conn: ConnectionRef) => `${conn.from}>${conn.to}`;
+
+// Empty number inputs clear the attribute
+const toOptionalNumber = (value: string) => (value ? Math.max(0, Number(value)) : undefined);
+
+// Driving time from the type and speed limit, as for connections drawn on the
+// map; types cars cannot use fall back to the road speed
+const derivedTime = (conn: Connection) => {
+  const time = profileTime(TRAVEL_PROFILES.driving, conn);
+  return Number.isFinite(time) ? time : profileTime(TRAVEL_PROFILES.driving, { ...conn, type: 'road' });
+};
+
+const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
+  graph,
+  selected,
+  onSelect,
+  onUpdateConnection,
+  onDeleteConnection,
+  autoConnect,
+  onAutoConnectChange
+}) => {
+  const selectedKey = selected ? connectionKey(selected) : '';
+  const connection = graph.connections.find(conn => connectionKey(conn) === selectedKey);
+  const ref = connection && { from: connection.from, to: connection.to };
+
+  const update = (changes: Partial<Connection>) => {
+    if (ref) onUpdateConnection(ref, changes);
+  };
+
+  const handleSelect = (key: string) => {
+    const conn = graph.connections.find(c => connectionKey(c) === key);
+    onSelect(conn ? { from: conn.from, to: conn.to } : null);
+  };
+
+  const pointName = (id: string) => graph.points[id]?.name ?? id;
+  const speedProfiles = Object.values(graph.speedProfiles ?? {});
+
+  return (
+    <Card className="border shadow-sm animate-fade-in">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Connections</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="auto-connect" className="text-sm font-normal">
+            Connect new destinations to every point
+          </Label>
+          <Switch id="auto-connect" checked={autoConnect} onCheckedChange={onAutoConnectChange} />
+        </div>
+        
+        {graph.connections.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Add destinations or draw connections on the map.
+          </div>
+        ) : (
+          <>
+            <Select value={connection ? selectedKey : ''} onValueChange={handleSelect}>
+              <SelectTrigger aria-label="Connection">
+                <SelectValue placeholder="Select a connection to edit" />
+              </SelectTrigger>
+              <SelectContent>
+                {graph.connections.map((conn) => (
+                  <SelectItem key={connectionKey(conn)} value={connectionKey(conn)}>
+                    {pointName(conn.from)} {conn.oneWay ? '→' : '↔'} {pointName(conn.to)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {connection && (
+              <div key={selectedKey} className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="connection-distance" className="text-xs">Distance (km)</Label>
+                  <DraftInput
+                    type="number"
+                    id="connection-distance"
+                    min={0}
+                    step="0.1"
+                    value={connection.distance}
+                    onCommit={(value) => update({ distance: Math.max(0, Number(value)) })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="connection-time" className="text-xs">Driving time (min)</Label>
+                    {connection.manualTime && (
+                      <button
+                        type="button"
+                        onClick={() => update({ manualTime: undefined, time: derivedTime(connection) })}
+                        className="text-xs text-muted-foreground hover:underline"
+                        title="Derive the time from the type and speed limit again"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                  <DraftInput
+                    type="number"
+                    id="connection-time"
+                    min={0}
+                    step="0.5"
+                    value={connection.time}
+                    onCommit={(value) => update({ time: Math.max(0, Number(value)), manualTime: true })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="connection-type" className="text-xs">Type</Label>
+                  <Select
+                    value={connection.type ?? 'road'}
+                    onValueChange={(value) => update({ type: value as ConnectionType })}
+                  >
+                    <SelectTrigger id="connection-type" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(typeLabels) as ConnectionType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="connection-class" className="text-xs">Road class</Label>
+                  <Select
+                    value={connection.roadClass ?? UNCLASSIFIED}
+                    onValueChange={(value) => update({ roadClass: value === UNCLASSIFIED ? undefined : value as RoadClass })}
+                  >
+                    <SelectTrigger id="connection-class" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCLASSIFIED}>Unclassified</SelectItem>
+                      {(Object.keys(roadClassLabels) as RoadClass[]).map((roadClass) => (
+                        <SelectItem key={roadClass} value={roadClass}>{roadClassLabels[roadClass]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="connection-surface" className="text-xs">Surface</Label>
+                  <Select
+                    value={connection.surface ?? 'paved'}
+                    onValueChange={(value) => update({ surface: value as Surface })}
+                  >
+                    <SelectTrigger id="connection-surface" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(surfaceLabels) as Surface[]).map((surface) => (
+                        <SelectItem key={surface} value={surface}>{surfaceLabels[surface]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="connection-speed-limit" className="text-xs">Speed limit (km/h)</Label>
+                  <DraftInput
+                    type="number"
+                    id="connection-speed-limit"
+                    min={0}
+                    placeholder="None"
+                    value={connection.speedLimit}
+                    onCommit={(value) => update({ speedLimit: toOptionalNumber(value) })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+
+                {speedProfiles.length > 0 && (
+                  <div className="col-span-2 space-y-1">
+                    <Label htmlFor="connection-speed-profile" className="text-xs">Traffic</Label>
+                    <Select
+                      value={connection.speedProfile ?? FREE_FLOW}
+                      onValueChange={(value) => update({ speedProfile: value === FREE_FLOW ? undefined : value })}
+                    >
+                      <SelectTrigger id="connection-speed-profile" className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FREE_FLOW}>Free flow at all times</SelectItem>
+                        {speedProfiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="connection-toll"
+                    checked={Boolean(connection.toll)}
+                    onCheckedChange={(checked) => update({ toll: checked, tollCost: checked ? connection.tollCost : undefined })}
+                  />
+                  <Label htmlFor="connection-toll" className="text-xs">Toll road</Label>
+                </div>
+
+                {connection.toll ? (
+                  <DraftInput
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    aria-label="Toll cost"
+                    placeholder="Cost"
+                    value={connection.tollCost}
+                    onCommit={(value) => update({ tollCost: toOptionalNumber(value) })}
+                    className="h-8 text-xs"
+                  />
+                ) : (
+                  <div />
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="connection-one-way"
+                    checked={Boolean(connection.oneWay)}
+                    onCheckedChange={(checked) => update({ oneWay: checked })}
+                  />
+                  <Label htmlFor="connection-one-way" className="text-xs">One-way</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="connection-restricted"
+                    checked={Boolean(connection.restricted)}
+                    onCheckedChange={(checked) => update({ restricted: checked })}
+                  />
+                  <Label htmlFor="connection-restricted" className="text-xs">Restricted access</Label>
+                </div>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDeleteConnection(ref)}
+                  className="col-span-2 text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete connection
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConnectionPanel;
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+
+interface DraftInputProps extends Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange'> {
+  value: string | number | undefined;
+  onCommit: (value: string) => void;
+}
+
+// An input that keeps what is typed as a draft until it loses focus or Enter
+// is pressed, so typing a value is one undoable edit rather than one per
+// keystroke. Escape drops the draft.
+const DraftInput: React.FC<DraftInputProps> = ({ value, onCommit, ...props }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft !== String(value ?? '')) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      {...props}
+      value={draft ?? value ?? ''}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+};
+
+export default DraftInput;
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 
 interface LayoutProps {
@@ -15,13 +16,14 @@ const Layout: React.FC<LayoutProps> = ({ children, className }) => {
     )}>
       <header className="glass border-b z-10 sticky top-0">
         <div className="container mx-auto py-4 px-4 sm:px-6 flex items-center justify-between">
-          <div className="flex items-center space-x-2">
+          <Link to="/" className="flex items-center space-x-2">
             <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center">
               <span className="text-primary-foreground font-semibold text-sm">R</span>
             </div>
             <h1 className="text-xl font-semibold">RouteOptimizer</h1>
-          </div>
+          </Link>
           <nav className="hidden md:flex items-center space-x-6">
+            <Link to="/plans" className="text-sm font-medium text-foreground/80 hover:text-foreground transition-colors">Plans</Link>
             <a href="#" className="text-sm font-medium text-foreground/80 hover:text-foreground transition-colors">About</a>
             <a href="#" className="text-sm font-medium text-foreground/80 hover:text-foreground transition-colors">How it works</a>
             <a href="#" className="text-sm font-medium text-foreground/80 hover:text-foreground transition-colors">Contact</a>
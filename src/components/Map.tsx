@@ -2,21 +2,136 @@
 import React, { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
-import { Graph, Point, Route } from '@/utils/routeOptimization';
+import { Graph, PickupDeliveryPair, Point, Route } from '@/utils/routeOptimization';
+import { VehicleRoute, vehicleColor } from '@/utils/fleetRouting';
 import { toast } from '@/components/ui/use-toast';
-import { MapPin, Navigation } from 'lucide-react';
+import { ConnectionRef, sameConnection } from '@/utils/avoidance';
+import { LatLng } from '@/utils/geo';
+import { cn } from '@/lib/utils';
+import { Cable, Construction, MapPin, Navigation, Pencil, Pentagon, Redo2, Undo2 } from 'lucide-react';
 
 interface MapProps {
   graph: Graph;
   route: Route | null;
+  // Every route the dispatcher can choose between; all but the selected one are drawn in grey
+  alternatives?: Route[];
+  selectedAlternative?: number;
+  onSelectAlternative?: (index: number) => void;
+  fleetRoutes?: VehicleRoute[];
+  pairs?: PickupDeliveryPair[];
+  closedConnections?: ConnectionRef[];
+  onToggleConnection?: (from: string, to: string) => void;
+  onZoneCreate?: (polygon: LatLng[]) => void;
+  // Graph editing: drag markers to move points, rename or delete them from their popup
+  onMovePoint?: (id: string, lat: number, lng: number) => void;
+  onRenamePoint?: (id: string, name: string) => void;
+  onDeletePoint?: (id: string) => void;
+  // Connection editing: click two markers to connect them, click a connection to select it
+  onCreateConnection?: (from: string, to: string) => void;
+  selectedConnection?: ConnectionRef | null;
+  onSelectConnection?: (ref: ConnectionRef) => void;
+  // Graph edit history; a missing label means there is nothing to undo or redo
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string;
+  redoLabel?: string;
   mapboxToken: string;
   onLocationSelect?: (lng: number, lat: number, type: 'start' | 'destination') => void;
   userLocation?: { lng: number, lat: number } | null;
 }
 
+// Popup content naming a point. Names can come from shared links, so they
+// are set as text and never parsed as HTML.
+function createPointInfo(point: Point): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'p-2';
+  
+  const title = document.createElement('h3');
+  title.className = 'font-semibold';
+  title.textContent = point.name;
+  
+  const id = document.createElement('p');
+  id.className = 'text-xs text-gray-500';
+  id.textContent = `ID: ${point.id}`;
+  
+  container.append(title, id);
+  return container;
+}
+
+// Popup content for renaming or deleting a point in edit mode
+function createPointEditor(
+  point: Point,
+  popup: mapboxgl.Popup,
+  onRenamePoint?: (id: string, name: string) => void,
+  onDeletePoint?: (id: string) => void
+): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'p-2 space-y-2';
+  
+  const title = document.createElement('p');
+  title.className = 'text-xs text-gray-500';
+  title.textContent = `ID: ${point.id}`;
+  container.appendChild(title);
+  
+  if (onRenamePoint) {
+    const input = document.createElement('input');
+    input.className = 'w-full rounded border border-gray-300 px-2 py-1 text-sm';
+    input.value = point.name;
+    input.setAttribute('aria-label', 'Point name');
+    
+    const rename = () => {
+      const name = input.value.trim();
+      if (name && name !== point.name) onRenamePoint(point.id, name);
+      popup.remove();
+    };
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') rename();
+    });
+    
+    const save = document.createElement('button');
+    save.className = 'text-xs font-medium text-primary';
+    save.textContent = 'Rename';
+    save.addEventListener('click', rename);
+    
+    container.append(input, save);
+  }
+  
+  // The starting point can be moved but not removed
+  if (onDeletePoint && point.id !== 'A') {
+    const remove = document.createElement('button');
+    remove.className = 'block text-xs font-medium text-destructive';
+    remove.textContent = 'Delete point';
+    remove.addEventListener('click', () => {
+      popup.remove();
+      onDeletePoint(point.id);
+    });
+    container.appendChild(remove);
+  }
+  
+  return container;
+}
+
 const Map: React.FC<MapProps> = ({ 
   graph, 
   route, 
+  alternatives = [],
+  selectedAlternative = 0,
+  onSelectAlternative,
+  fleetRoutes,
+  pairs = [],
+  closedConnections = [],
+  onToggleConnection,
+  onZoneCreate,
+  onMovePoint,
+  onRenamePoint,
+  onDeletePoint,
+  onCreateConnection,
+  selectedConnection = null,
+  onSelectConnection,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
   mapboxToken, 
   onLocationSelect,
   userLocation
@@ -25,8 +140,21 @@ const Map: React.FC<MapProps> = ({
   const map = useRef<mapboxgl.Map | null>(null);
   const [mapReady, setMapReady] = useState(false);
   const [selectionMode, setSelectionMode] = useState<'start' | 'destination' | null>(null);
+  const [closureMode, setClosureMode] = useState(false);
+  const [zoneDraft, setZoneDraft] = useState<LatLng[] | null>(null); // corners while drawing a zone
+  const isDrawingZone = zoneDraft !== null;
+  const [editMode, setEditMode] = useState(false);
+  const canEdit = Boolean(onMovePoint || onRenamePoint || onDeletePoint);
+  const [connectMode, setConnectMode] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null); // first marker clicked
   const userLocationMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const fleetLayerCountRef = useRef(0);
+  // The click handler is bound once with the map, so it reads these through refs
+  const selectionModeRef = useRef(selectionMode);
+  selectionModeRef.current = selectionMode;
+  const onLocationSelectRef = useRef(onLocationSelect);
+  onLocationSelectRef.current = onLocationSelect;
 
   // Initialize map
   useEffect(() => {
@@ -73,6 +201,8 @@ const Map: React.FC<MapProps> = ({
 
       // Add click event for location selection
       newMap.on('click', (e) => {
+        const selectionMode = selectionModeRef.current;
+        const onLocationSelect = onLocationSelectRef.current;
         if (selectionMode && onLocationSelect) {
           onLocationSelect(e.lngLat.lng, e.lngLat.lat, selectionMode);
           setSelectionMode(null); // Reset selection mode after selecting
@@ -141,6 +271,13 @@ const Map: React.FC<MapProps> = ({
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
 
+    // Pickup/delivery tags per point, numbered like the form's pairs
+    const pairTags: Record<string, string[]> = {};
+    pairs.forEach((pair, index) => {
+      (pairTags[pair.pickupId] ??= []).push(`P${index + 1}`);
+      (pairTags[pair.deliveryId] ??= []).push(`D${index + 1}`);
+    });
+
     // Add markers for all points
     Object.values(graph.points).forEach((point) => {
       const el = document.createElement('div');
@@ -160,23 +297,66 @@ const Map: React.FC<MapProps> = ({
       }
       
       el.appendChild(inner);
+      
+      if (point.id === connectFrom) {
+        el.className += ' ring-2 ring-primary';
+      }
+      
+      if (pairTags[point.id]) {
+        el.className += ' relative';
+        const tag = document.createElement('div');
+        tag.className = 'absolute -top-2 -right-3 px-1 rounded bg-amber-500 text-white text-[10px] font-semibold leading-4 whitespace-nowrap';
+        tag.textContent = pairTags[point.id].join(' ');
+        el.appendChild(tag);
+      }
 
-      // Create popup with point information
-      const popup = new mapboxgl.Popup({ offset: 25 })
-        .setHTML(`<div class="p-2">
-          <h3 class="font-semibold">${point.name}</h3>
-          <p class="text-xs text-gray-500">ID: ${point.id}</p>
-        </div>`);
+      // Create popup with point information, or the point's editor in edit mode
+      const popup = new mapboxgl.Popup({ offset: 25 });
+      if (editMode) {
+        popup.setDOMContent(createPointEditor(point, popup, onRenamePoint, onDeletePoint));
+      } else {
+        popup.setDOMContent(createPointInfo(point));
+      }
 
-      // Create and add the marker
-      const marker = new mapboxgl.Marker(el)
+      // Create and add the marker; while connecting, a click picks the marker instead
+      const marker = new mapboxgl.Marker({ element: el, draggable: editMode && Boolean(onMovePoint) })
         .setLngLat([point.lng, point.lat])
-        .setPopup(popup)
         .addTo(map.current);
       
+      if (connectMode) {
+        el.style.cursor = 'pointer';
+        el.addEventListener('click', () => {
+          if (!connectFrom) {
+            setConnectFrom(point.id);
+          } else {
+            if (connectFrom !== point.id) onCreateConnection?.(connectFrom, point.id);
+            setConnectFrom(null);
+          }
+        });
+      } else {
+        marker.setPopup(popup);
+      }
+      
+      // Connections are re-measured once the point is dropped
+      marker.on('dragend', () => {
+        const { lat, lng } = marker.getLngLat();
+        onMovePoint?.(point.id, lat, lng);
+      });
+      
       markersRef.current.push(marker);
     });
-  }, [graph.points, mapReady]);
+  }, [
+    graph.points,
+    pairs,
+    editMode,
+    connectMode,
+    connectFrom,
+    onMovePoint,
+    onRenamePoint,
+    onDeletePoint,
+    onCreateConnection,
+    mapReady
+  ]);
 
   // Update user location marker
   useEffect(() => {
@@ -218,9 +398,12 @@ const Map: React.FC<MapProps> = ({
 
   // Draw route path
   useEffect(() => {
-    if (!map.current || !mapReady || !route) return;
+    if (!map.current || !mapReady) return;
     
     // Remove existing route layers if they exist
+    if (map.current.getLayer('route-arrows')) {
+      map.current.removeLayer('route-arrows');
+    }
     if (map.current.getLayer('route-line')) {
       map.current.removeLayer('route-line');
     }
@@ -230,6 +413,8 @@ const Map: React.FC<MapProps> = ({
     if (map.current.getSource('route')) {
       map.current.removeSource('route');
     }
+    
+    if (!route) return;
 
     // Extract coordinates for the route path
     const coordinates: [number, number][] = route.path.map(pointId => {
@@ -283,6 +468,26 @@ const Map: React.FC<MapProps> = ({
       }
     });
 
+    // Add arrows along the line showing the direction of travel
+    map.current.addLayer({
+      id: 'route-arrows',
+      type: 'symbol',
+      source: 'route',
+      layout: {
+        'symbol-placement': 'line',
+        'symbol-spacing': 80,
+        'text-field': '>',
+        'text-size': 16,
+        'text-keep-upright': false,
+        'text-allow-overlap': true
+      },
+      paint: {
+        'text-color': '#1d4ed8',
+        'text-halo-color': '#ffffff',
+        'text-halo-width': 1
+      }
+    });
+
     // Fit map to show the entire route
     const bounds = new mapboxgl.LngLatBounds();
     coordinates.forEach(coord => bounds.extend(coord));
@@ -294,6 +499,7 @@ const Map: React.FC<MapProps> = ({
     });
 
     // Add animated dots along the path
+    let animationFrame = 0;
     const animateDot = () => {
       if (!map.current) return;
 
@@ -339,15 +545,509 @@ const Map: React.FC<MapProps> = ({
         }
       });
 
-      requestAnimationFrame(animateDot);
+      animationFrame = requestAnimationFrame(animateDot);
     };
 
     // Start animation
     animateDot();
 
-    // No cleanup needed for this animation as it will be replaced in the next render
+    // Stop the animation and remove the dot before the next route is drawn
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      if (!map.current) return;
+      if (map.current.getLayer('route-dot')) {
+        map.current.removeLayer('route-dot');
+      }
+      if (map.current.getSource('dot')) {
+        map.current.removeSource('dot');
+      }
+    };
   }, [graph.points, route, mapReady]);
 
+  // Dashed connectors from each pickup to its delivery
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    if (map.current.getLayer('pairs')) {
+      map.current.removeLayer('pairs');
+    }
+    if (map.current.getSource('pairs')) {
+      map.current.removeSource('pairs');
+    }
+    
+    const features = pairs
+      .filter(pair => graph.points[pair.pickupId] && graph.points[pair.deliveryId])
+      .map(pair => ({
+        type: 'Feature' as const,
+        properties: { pair: pair.id },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [pair.pickupId, pair.deliveryId].map(pointId => {
+            const point = graph.points[pointId];
+            return [point.lng, point.lat];
+          })
+        }
+      }));
+    
+    if (features.length === 0) return;
+    
+    map.current.addSource('pairs', {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features
+      }
+    });
+    
+    map.current.addLayer({
+      id: 'pairs',
+      type: 'line',
+      source: 'pairs',
+      paint: {
+        'line-color': '#f59e0b',
+        'line-width': 2,
+        'line-dasharray': [2, 2]
+      }
+    });
+  }, [graph.points, pairs, mapReady]);
+
+  // Draw the routes not currently selected as grey lines that can be clicked
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    if (map.current.getLayer('alternatives')) {
+      map.current.removeLayer('alternatives');
+    }
+    if (map.current.getSource('alternatives')) {
+      map.current.removeSource('alternatives');
+    }
+    
+    const features = alternatives
+      .map((alternative, index) => ({
+        type: 'Feature' as const,
+        properties: { index },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: alternative.path.map(pointId => {
+            const point = graph.points[pointId];
+            return [point.lng, point.lat];
+          })
+        }
+      }))
+      .filter(feature => feature.properties.index !== selectedAlternative);
+    
+    if (features.length === 0) return;
+    
+    map.current.addSource('alternatives', {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features
+      }
+    });
+    
+    // Keep the grey lines underneath the selected route
+    map.current.addLayer({
+      id: 'alternatives',
+      type: 'line',
+      source: 'alternatives',
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': '#9ca3af',
+        'line-width': 5,
+        'line-opacity': 0.8
+      }
+    }, map.current.getLayer('route-line-casing') ? 'route-line-casing' : undefined);
+    
+    const currentMap = map.current;
+    const handleClick = (e: mapboxgl.MapLayerMouseEvent) => {
+      const index = e.features?.[0]?.properties?.index;
+      if (index !== undefined) onSelectAlternative?.(Number(index));
+    };
+    const showPointer = () => { currentMap.getCanvas().style.cursor = 'pointer'; };
+    const hidePointer = () => { currentMap.getCanvas().style.cursor = ''; };
+    
+    currentMap.on('click', 'alternatives', handleClick);
+    currentMap.on('mouseenter', 'alternatives', showPointer);
+    currentMap.on('mouseleave', 'alternatives', hidePointer);
+    
+    return () => {
+      currentMap.off('click', 'alternatives', handleClick);
+      currentMap.off('mouseenter', 'alternatives', showPointer);
+      currentMap.off('mouseleave', 'alternatives', hidePointer);
+    };
+  }, [graph.points, alternatives, selectedAlternative, onSelectAlternative, mapReady]);
+
+  // Closed connections as dashed red segments; while closing roads or editing
+  // connections every connection is shown, and a click opens or closes it or
+  // selects it for editing
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    ['connections', 'closed-connections', 'selected-connection'].forEach(layerId => {
+      if (map.current!.getLayer(layerId)) {
+        map.current!.removeLayer(layerId);
+      }
+    });
+    if (map.current.getSource('connections')) {
+      map.current.removeSource('connections');
+    }
+    
+    const features = graph.connections
+      .filter(conn => graph.points[conn.from] && graph.points[conn.to])
+      .map(conn => ({
+        type: 'Feature' as const,
+        properties: {
+          from: conn.from,
+          to: conn.to,
+          closed: closedConnections.some(ref => sameConnection(ref, conn)),
+          selected: Boolean(selectedConnection && conn.from === selectedConnection.from && conn.to === selectedConnection.to)
+        },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [conn.from, conn.to].map(pointId => {
+            const point = graph.points[pointId];
+            return [point.lng, point.lat];
+          })
+        }
+      }));
+    
+    map.current.addSource('connections', {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features
+      }
+    });
+    
+    const showAll = closureMode || connectMode;
+    
+    if (showAll) {
+      map.current.addLayer({
+        id: 'connections',
+        type: 'line',
+        source: 'connections',
+        filter: ['!', ['get', 'closed']],
+        paint: {
+          'line-color': '#6b7280',
+          'line-width': 4,
+          'line-opacity': 0.5
+        }
+      });
+    }
+    
+    map.current.addLayer({
+      id: 'closed-connections',
+      type: 'line',
+      source: 'connections',
+      filter: ['get', 'closed'],
+      paint: {
+        'line-color': '#ef4444',
+        'line-width': 4,
+        'line-dasharray': [2, 1.5]
+      }
+    });
+    
+    if (connectMode) {
+      map.current.addLayer({
+        id: 'selected-connection',
+        type: 'line',
+        source: 'connections',
+        filter: ['get', 'selected'],
+        paint: {
+          'line-color': '#3b82f6',
+          'line-width': 6
+        }
+      });
+    }
+    
+    if (!showAll) return;
+    
+    const currentMap = map.current;
+    const handleClick = (e: mapboxgl.MapLayerMouseEvent) => {
+      const properties = e.features?.[0]?.properties;
+      if (!properties) return;
+      
+      if (connectMode) {
+        onSelectConnection?.({ from: properties.from, to: properties.to });
+      } else {
+        onToggleConnection?.(properties.from, properties.to);
+      }
+    };
+    const layers = ['connections', 'closed-connections'];
+    
+    layers.forEach(layerId => currentMap.on('click', layerId, handleClick));
+    
+    return () => {
+      layers.forEach(layerId => currentMap.off('click', layerId, handleClick));
+    };
+  }, [
+    graph,
+    closedConnections,
+    closureMode,
+    connectMode,
+    selectedConnection,
+    onToggleConnection,
+    onSelectConnection,
+    mapReady
+  ]);
+
+  // Avoid zones saved with the graph: red excludes, amber penalises, grey is disabled
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    ['zones-fill', 'zones-outline'].forEach(layerId => {
+      if (map.current!.getLayer(layerId)) {
+        map.current!.removeLayer(layerId);
+      }
+    });
+    if (map.current.getSource('zones')) {
+      map.current.removeSource('zones');
+    }
+    
+    const zones = graph.zones ?? [];
+    if (zones.length === 0) return;
+    
+    map.current.addSource('zones', {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features: zones.map(zone => ({
+          type: 'Feature' as const,
+          properties: {
+            name: zone.name,
+            color: !zone.enabled ? '#9ca3af' : zone.penalty === undefined ? '#ef4444' : '#f59e0b'
+          },
+          geometry: {
+            type: 'Polygon' as const,
+            coordinates: [[...zone.polygon, zone.polygon[0]].map(corner => [corner.lng, corner.lat])]
+          }
+        }))
+      }
+    });
+    
+    map.current.addLayer({
+      id: 'zones-fill',
+      type: 'fill',
+      source: 'zones',
+      paint: {
+        'fill-color': ['get', 'color'],
+        'fill-opacity': 0.15
+      }
+    });
+    
+    map.current.addLayer({
+      id: 'zones-outline',
+      type: 'line',
+      source: 'zones',
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2
+      }
+    });
+  }, [graph.zones, mapReady]);
+
+  // While drawing a zone every click adds a corner
+  useEffect(() => {
+    if (!map.current || !mapReady || !isDrawingZone) return;
+    
+    const currentMap = map.current;
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      setZoneDraft(draft => (draft ? [...draft, { lat: e.lngLat.lat, lng: e.lngLat.lng }] : draft));
+    };
+    
+    currentMap.on('click', handleClick);
+    currentMap.doubleClickZoom.disable();
+    currentMap.getCanvas().style.cursor = 'crosshair';
+    
+    return () => {
+      currentMap.off('click', handleClick);
+      currentMap.doubleClickZoom.enable();
+      currentMap.getCanvas().style.cursor = '';
+    };
+  }, [isDrawingZone, mapReady]);
+
+  // Outline of the zone being drawn
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    if (map.current.getLayer('zone-draft')) {
+      map.current.removeLayer('zone-draft');
+    }
+    if (map.current.getSource('zone-draft')) {
+      map.current.removeSource('zone-draft');
+    }
+    
+    if (!zoneDraft || zoneDraft.length < 2) return;
+    
+    map.current.addSource('zone-draft', {
+      type: 'geojson',
+      data: {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'LineString',
+          coordinates: [...zoneDraft, zoneDraft[0]].map(corner => [corner.lng, corner.lat])
+        }
+      }
+    });
+    
+    map.current.addLayer({
+      id: 'zone-draft',
+      type: 'line',
+      source: 'zone-draft',
+      paint: {
+        'line-color': '#ef4444',
+        'line-width': 2,
+        'line-dasharray': [1, 1]
+      }
+    });
+  }, [zoneDraft, mapReady]);
+
+  // Draw one route per vehicle, each with its own source and layers
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    
+    // Remove the previous fleet layers
+    for (let i = 0; i < fleetLayerCountRef.current; i++) {
+      [`fleet-route-arrows-${i}`, `fleet-route-line-${i}`, `fleet-route-casing-${i}`].forEach(layerId => {
+        if (map.current!.getLayer(layerId)) {
+          map.current!.removeLayer(layerId);
+        }
+      });
+      if (map.current.getSource(`fleet-route-${i}`)) {
+        map.current.removeSource(`fleet-route-${i}`);
+      }
+    }
+    fleetLayerCountRef.current = 0;
+    
+    if (!fleetRoutes || fleetRoutes.length === 0) return;
+    
+    const bounds = new mapboxgl.LngLatBounds();
+    
+    fleetRoutes.forEach(({ vehicle, route: vehicleRoute }, i) => {
+      const coordinates: [number, number][] = vehicleRoute.path.map(pointId => {
+        const point = graph.points[pointId];
+        return [point.lng, point.lat];
+      });
+      coordinates.forEach(coord => bounds.extend(coord));
+      
+      const color = vehicle.color ?? vehicleColor(i);
+      
+      map.current!.addSource(`fleet-route-${i}`, {
+        type: 'geojson',
+        data: {
+          type: 'Feature',
+          properties: { vehicle: vehicle.name },
+          geometry: {
+            type: 'LineString',
+            coordinates
+          }
+        }
+      });
+      
+      map.current!.addLayer({
+        id: `fleet-route-casing-${i}`,
+        type: 'line',
+        source: `fleet-route-${i}`,
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': '#ffffff',
+          'line-width': 8,
+          'line-opacity': 0.8
+        }
+      });
+      
+      map.current!.addLayer({
+        id: `fleet-route-line-${i}`,
+        type: 'line',
+        source: `fleet-route-${i}`,
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': color,
+          'line-width': 4,
+          'line-opacity': 1
+        }
+      });
+      
+      map.current!.addLayer({
+        id: `fleet-route-arrows-${i}`,
+        type: 'symbol',
+        source: `fleet-route-${i}`,
+        layout: {
+          'symbol-placement': 'line',
+          'symbol-spacing': 80,
+          'text-field': '>',
+          'text-size': 16,
+          'text-keep-upright': false,
+          'text-allow-overlap': true
+        },
+        paint: {
+          'text-color': color,
+          'text-halo-color': '#ffffff',
+          'text-halo-width': 1
+        }
+      });
+    });
+    
+    fleetLayerCountRef.current = fleetRoutes.length;
+    
+    map.current.fitBounds(bounds, {
+      padding: 50,
+      maxZoom: 15,
+      duration: 1000
+    });
+  }, [graph.points, fleetRoutes, mapReady]);
+
+  // Only one of the map's editing modes is active at a time
+  const leaveModes = () => {
+    setZoneDraft(null);
+    setClosureMode(false);
+    setEditMode(false);
+    setConnectMode(false);
+    setConnectFrom(null);
+  };
+
+  const handleToggleClosureMode = () => {
+    leaveModes();
+    setClosureMode(!closureMode);
+  };
+
+  const handleToggleEditMode = () => {
+    leaveModes();
+    setEditMode(!editMode);
+  };
+
+  const handleToggleConnectMode = () => {
+    leaveModes();
+    setConnectMode(!connectMode);
+  };
+
+  const handleStartZone = () => {
+    leaveModes();
+    setZoneDraft([]);
+    toast({
+      title: "Draw Avoid Zone",
+      description: "Click the map to add corners, then press Finish.",
+    });
+  };
+
+  const handleFinishZone = () => {
+    if (zoneDraft && zoneDraft.length >= 3) {
+      onZoneCreate?.(zoneDraft);
+    }
+    setZoneDraft(null);
+  };
+
   const handleSetStartingPoint = () => {
     setSelectionMode('start');
     toast({
@@ -385,6 +1085,73 @@ const Map: React.FC<MapProps> = ({
           >
             <MapPin className="h-5 w-5 text-destructive" />
           </button>
+          {onToggleConnection && (
+            <button 
+              onClick={handleToggleClosureMode}
+              className={cn(
+                "flex items-center justify-center p-2 rounded-full shadow-md transition-colors",
+                closureMode ? "bg-destructive text-white" : "bg-white hover:bg-gray-100 text-destructive"
+              )}
+              title={closureMode ? "Stop closing roads" : "Close or reopen roads"}
+            >
+              <Construction className="h-5 w-5" />
+            </button>
+          )}
+          {canEdit && (
+            <button 
+              onClick={handleToggleEditMode}
+              className={cn(
+                "flex items-center justify-center p-2 rounded-full shadow-md transition-colors",
+                editMode ? "bg-primary text-white" : "bg-white hover:bg-gray-100 text-primary"
+              )}
+              title={editMode ? "Stop editing points" : "Edit points"}
+            >
+              <Pencil className="h-5 w-5" />
+            </button>
+          )}
+          {onCreateConnection && (
+            <button 
+              onClick={handleToggleConnectMode}
+              className={cn(
+                "flex items-center justify-center p-2 rounded-full shadow-md transition-colors",
+                connectMode ? "bg-primary text-white" : "bg-white hover:bg-gray-100 text-primary"
+              )}
+              title={connectMode ? "Stop editing connections" : "Draw and edit connections"}
+            >
+              <Cable className="h-5 w-5" />
+            </button>
+          )}
+          {onZoneCreate && (
+            <button 
+              onClick={handleStartZone}
+              className="flex items-center justify-center bg-white p-2 rounded-full shadow-md hover:bg-gray-100 transition-colors"
+              title="Draw avoid zone"
+            >
+              <Pentagon className="h-5 w-5 text-destructive" />
+            </button>
+          )}
+        </div>
+      )}
+      
+      {/* Edit history */}
+      {mapboxToken && mapReady && (onUndo || onRedo) && (
+        <div className="absolute top-4 left-4 flex space-x-2">
+          <button 
+            onClick={onUndo}
+            disabled={!undoLabel}
+            className="flex items-center justify-center bg-white p-2 rounded-full shadow-md hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:hover:bg-white"
+            title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            <Undo2 className="h-5 w-5 text-primary" />
+          </button>
+          <button 
+            onClick={onRedo}
+            disabled={!redoLabel}
+            className="flex items-center justify-center bg-white p-2 rounded-full shadow-md hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:hover:bg-white"
+            title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            <Redo2 className="h-5 w-5 text-primary" />
+          </button>
         </div>
       )}
       
@@ -395,6 +1162,44 @@ const Map: React.FC<MapProps> = ({
         </div>
       )}
       
+      {zoneDraft && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 flex items-center space-x-3 bg-white px-4 py-2 rounded-full shadow-md text-sm font-medium">
+          <span>
+            {zoneDraft.length < 3 ? `Click to add corners (${zoneDraft.length}/3)` : `${zoneDraft.length} corners`}
+          </span>
+          <button
+            onClick={handleFinishZone}
+            disabled={zoneDraft.length < 3}
+            className="text-primary disabled:text-muted-foreground"
+          >
+            Finish
+          </button>
+          <button onClick={() => setZoneDraft(null)} className="text-muted-foreground">
+            Cancel
+          </button>
+        </div>
+      )}
+      
+      {closureMode && !selectionMode && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white px-4 py-2 rounded-full shadow-md text-sm font-medium">
+          Click a road to close or reopen it
+        </div>
+      )}
+      
+      {editMode && !selectionMode && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white px-4 py-2 rounded-full shadow-md text-sm font-medium">
+          Drag a point to move it, or click it to rename or delete it
+        </div>
+      )}
+      
+      {connectMode && !selectionMode && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white px-4 py-2 rounded-full shadow-md text-sm font-medium">
+          {connectFrom
+            ? `Click another point to connect it to ${graph.points[connectFrom]?.name ?? connectFrom}`
+            : 'Click two points to connect them, or a connection to edit it'}
+        </div>
+      )}
+      
       {!mapboxToken && (
         <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm">
           <div className="text-center p-6 rounded-lg bg-white shadow-lg">
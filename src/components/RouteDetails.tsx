@@ -1,19 +1,50 @@
 
 import React from 'react';
-import { Graph, Route } from '@/utils/routeOptimization';
+import { findConnection, Graph, HELD_KARP_MAX_DESTINATIONS, Route } from '@/utils/routeOptimization';
+import { FleetPlan, vehicleColor } from '@/utils/fleetRouting';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { ArrowRight, Clock, Route as RouteIcon } from 'lucide-react';
+import { TRAVEL_PROFILES, TravelMode, applyTravelProfile } from '@/utils/travelModes';
+import { connectionEmissions } from '@/utils/emissions';
+import { AlertTriangle, ArrowRight, Bike, Car, Clock, Footprints, Leaf, LucideIcon, Package, Route as RouteIcon, Wallet } from 'lucide-react';
+import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import { cn } from '@/lib/utils';
 
+const loadChartConfig = {
+  load: {
+    label: 'Load',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig;
+
+const profileIcons: Record<TravelMode, LucideIcon> = {
+  driving: Car,
+  cycling: Bike,
+  walking: Footprints,
+  'cargo-bike': Package
+};
+
 interface RouteDetailsProps {
   graph: Graph;
   route: Route | null;
+  fleetPlan?: FleetPlan | null;
+  // Index into [route, ...route.alternatives] of the route shown on the map
+  selectedAlternative?: number;
+  onSelectAlternative?: (index: number) => void;
 }
 
-const RouteDetails: React.FC<RouteDetailsProps> = ({ graph, route }) => {
-  if (!route) {
+const RouteDetails: React.FC<RouteDetailsProps> = ({
+  graph,
+  route,
+  fleetPlan,
+  selectedAlternative = 0,
+  onSelectAlternative
+}) => {
+  if (!route && !fleetPlan) {
     return (
       <Card className="border shadow-sm animate-fade-in">
         <CardHeader className="pb-2">
@@ -45,10 +76,297 @@ const RouteDetails: React.FC<RouteDetailsProps> = ({ graph, route }) => {
     return `${km.toFixed(1)} km`;
   };
 
+  // Format an amount of money in the cost model's currency
+  const formatMoney = (amount: number, currency: string) => {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  };
+
+  // Format kilograms of CO2, switching to grams for short legs
+  const formatEmissions = (kg: number) => {
+    return kg < 1 ? `${Math.round(kg * 1000)} g CO₂` : `${kg.toFixed(1)} kg CO₂`;
+  };
+
+  // Format a timestamp as a 24-hour clock time
+  const formatClock = (timestamp: number) => {
+    return format(new Date(timestamp), 'HH:mm');
+  };
+
+  // Distance, time and emissions of the connection a route drove from its
+  // index-th point; routes planned before steps were kept fall back to the
+  // shortest connection between the two points
+  const renderLeg = (route: Route, index: number) => {
+    const step = route.steps?.[index];
+    const connection = step?.connection
+      ?? findConnection(applyTravelProfile(graph, route.profile), route.path[index], route.path[index + 1]);
+    if (!connection) return null;
+    const time = step?.time ?? connection.time;
+    const emissions = route.emissions?.legs[index] ?? connectionEmissions(connection, route.profile);
+
+    return (
+      <span className="inline-flex items-center">
+        {formatDistance(connection.distance)} • {formatTime(time)}
+        {emissions > 0 && ` • ${formatEmissions(emissions)}`}
+        {connection.oneWay && (
+          <span className="inline-flex items-center ml-1" title="One-way">
+            • <ArrowRight className="h-3 w-3 mx-0.5" /> one-way
+          </span>
+        )}
+      </span>
+    );
+  };
+
+  // How far the order of stops can be trusted: only the tour solvers choose
+  // one, and alternatives keep the order of the route they were found for
+  const describeOrder = (route: Route) => {
+    switch (route.strategy) {
+      case 'direct':
+      case 'held-karp':
+        return `This route visits ${route.path.length} points in the optimal order.`;
+      case 'greedy':
+      case 'local-search':
+        return `This route visits ${route.path.length} points in an approximate order (exact ordering is limited to ${HELD_KARP_MAX_DESTINATIONS} destinations).`;
+      case 'given':
+        return `This route visits ${route.path.length} points in the order they were given.`;
+      default:
+        return `This route visits ${route.path.length} points, taking other roads between the stops of the optimized route in the same order.`;
+    }
+  };
+
+  // The travel mode a route was planned for
+  const renderProfile = (mode: TravelMode) => {
+    const Icon = profileIcons[mode];
+    return (
+      <Badge variant="outline" className="bg-primary/5">
+        <Icon className="h-3 w-3 mr-1" />
+        {TRAVEL_PROFILES[mode].name}
+      </Badge>
+    );
+  };
+
+  // Stops, schedule and totals of a single route
+  const renderRoute = (route: Route, title = 'Optimized Route:') => (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="font-medium">{title}</div>
+        <div className="flex items-center gap-1">
+          {route.profile && renderProfile(route.profile)}
+          {route.mode === 'round-trip' && (
+            <Badge variant="secondary">Round trip</Badge>
+          )}
+          {route.mode === 'fixed-end' && (
+            <Badge variant="secondary">Ends at {route.path[route.path.length - 1]}</Badge>
+          )}
+        </div>
+      </div>
+      
+      <div className="pl-2 space-y-2">
+        {route.path.map((pointId, index) => (
+          <React.Fragment key={`${pointId}-${index}`}>
+            <div className="flex items-center">
+              <div className="relative">
+                <div className={cn(
+                  "w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold",
+                  index === 0 || (route.mode === 'round-trip' && index === route.path.length - 1)
+                    ? "bg-primary text-white"
+                    : "bg-secondary text-foreground"
+                )}>
+                  {pointId}
+                </div>
+                
+                {/* Vertical line connecting points */}
+                {index < route.path.length - 1 && (
+                  <div className="absolute top-6 left-1/2 h-6 w-0.5 -ml-px bg-muted-foreground/20" />
+                )}
+              </div>
+              
+              <div className="ml-3">
+                <div className="font-medium">{graph.points[pointId].name}</div>
+                {index < route.path.length - 1 && (
+                  <div className="text-xs text-muted-foreground">
+                    {/* Show distance and time to next point if available */}
+                    {renderLeg(route, index)}
+                  </div>
+                )}
+              </div>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+      
+      {route.schedule && (
+        <>
+          <Separator className="my-2" />
+          
+          <div className="flex items-center text-sm">
+            <div className="font-medium">Schedule:</div>
+          </div>
+          
+          <div className="pl-2 space-y-2">
+            {route.schedule.map((stop, index) => (
+              <div key={`${stop.pointId}-${index}`} className="flex items-start justify-between text-sm">
+                <div>
+                  <div className="font-medium">{graph.points[stop.pointId]?.name ?? stop.pointId}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {index === 0
+                      ? `Depart ${formatClock(stop.departure)}`
+                      : `Arrive ${formatClock(stop.arrival)}${stop.wait > 0 ? ` • wait ${formatTime(stop.wait)}` : ''} • leave ${formatClock(stop.departure)}`}
+                  </div>
+                </div>
+                {stop.windowMissed && (
+                  <Badge variant="destructive" className="shrink-0">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {formatTime(stop.lateBy)} late
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      
+      {route.loads && (
+        <>
+          <Separator className="my-2" />
+          
+          <div className="flex items-center text-sm">
+            <div className="font-medium">Load Over Route:</div>
+          </div>
+          
+          <ChartContainer config={loadChartConfig} className="h-32 w-full aspect-auto">
+            <AreaChart data={route.loads} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="pointId" tickLine={false} axisLine={false} />
+              <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area
+                dataKey="load"
+                type="stepAfter"
+                fill="var(--color-load)"
+                fillOpacity={0.2}
+                stroke="var(--color-load)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        </>
+      )}
+      
+      {route.unserved && (
+        <div className="flex items-center text-xs text-destructive">
+          <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+          Not served: {route.unserved.map(id => graph.points[id]?.name ?? id).join(', ')}
+        </div>
+      )}
+      
+      <Separator className="my-2" />
+      
+      <div className="flex justify-between items-center text-sm">
+        <div className="text-muted-foreground">Total Distance:</div>
+        <div className="font-semibold">{formatDistance(route.totalDistance)}</div>
+      </div>
+      
+      <div className="flex justify-between items-center text-sm">
+        <div className="text-muted-foreground">Estimated Time:</div>
+        <div className="font-semibold">{formatTime(route.totalTime)}</div>
+      </div>
+      
+      {route.emissions && (
+        <div className="flex justify-between items-center text-sm">
+          <div className="text-muted-foreground">CO₂ Emissions:</div>
+          <div className="font-semibold inline-flex items-center">
+            <Leaf className="h-3 w-3 mr-1 text-green-600" />
+            {formatEmissions(route.emissions.total)}
+          </div>
+        </div>
+      )}
+      
+      {route.cost && (
+        <div className="flex justify-between items-start text-sm">
+          <div className="text-muted-foreground">Estimated Cost:</div>
+          <div className="text-right">
+            <div className="font-semibold">{formatMoney(route.cost.total, route.cost.currency)}</div>
+            <div className="text-xs text-muted-foreground">
+              Fuel {formatMoney(route.cost.fuel, route.cost.currency)}
+              {' • '}Tolls {formatMoney(route.cost.tolls, route.cost.currency)}
+              {' • '}Driver {formatMoney(route.cost.wage, route.cost.currency)}
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {route.improvement && (
+        <div className="flex justify-between items-center text-sm">
+          <div className="text-muted-foreground">Saved vs. Greedy:</div>
+          <div className="font-semibold text-green-600">
+            {[
+              route.improvement.distanceSaved > 0 && formatDistance(route.improvement.distanceSaved),
+              route.improvement.timeSaved > 0 && formatTime(route.improvement.timeSaved)
+            ].filter(Boolean).join(' • ') || 'No change'}
+          </div>
+        </div>
+      )}
+      
+      <div className="text-xs text-muted-foreground mt-2 pt-2 border-t">
+        {describeOrder(route)}
+      </div>
+    </div>
+  );
+
+  // Side-by-side totals for the optimal route and its alternatives
+  const renderComparison = (choices: Route[]) => (
+    <div className="mb-4 space-y-1">
+      <div className="grid grid-cols-4 gap-2 px-2 text-xs text-muted-foreground">
+        <div>Route</div>
+        <div className="text-right">Distance</div>
+        <div className="text-right">Time</div>
+        <div className="text-right">Stops</div>
+      </div>
+      {choices.map((choice, index) => (
+        <button
+          key={choice.path.join('-')}
+          type="button"
+          onClick={() => onSelectAlternative?.(index)}
+          className={cn(
+            "grid grid-cols-4 gap-2 w-full px-2 py-1 rounded text-sm text-left transition-colors",
+            index === selectedAlternative ? "bg-primary/10 font-medium" : "hover:bg-muted"
+          )}
+        >
+          <div>{index === 0 ? 'Optimal' : `Alternative ${index}`}</div>
+          <div className="text-right">
+            {formatDistance(choice.totalDistance)}
+            {index > 0 && (
+              <span className="block text-xs text-muted-foreground">
+                +{formatDistance(choice.totalDistance - choices[0].totalDistance)}
+              </span>
+            )}
+          </div>
+          <div className="text-right">
+            {formatTime(choice.totalTime)}
+            {index > 0 && (
+              <span className="block text-xs text-muted-foreground">
+                {choice.totalTime >= choices[0].totalTime ? '+' : '-'}{formatTime(Math.abs(choice.totalTime - choices[0].totalTime))}
+              </span>
+            )}
+          </div>
+          <div className="text-right">{choice.stops?.length ?? choice.path.length}</div>
+        </button>
+      ))}
+    </div>
+  );
+
+  // The optimal route first, then its alternatives
+  const choices = route ? [route, ...(route.alternatives ?? [])] : [];
+  const shownRoute = choices[selectedAlternative] ?? route;
+
+  // Header totals cover every vehicle in a fleet plan
+  const routes = fleetPlan ? fleetPlan.routes.map(r => r.route) : [shownRoute];
+  const totalTime = routes.reduce((sum, r) => sum + r.totalTime, 0);
+  const totalDistance = routes.reduce((sum, r) => sum + r.totalDistance, 0);
+  const totalCost = routes.every(r => r.cost) ? routes.reduce((sum, r) => sum + r.cost.total, 0) : undefined;
+
   return (
     <Card className={cn(
       "border shadow-sm animate-fade-in",
-      route ? "bg-white" : "bg-muted/50"
+      routes.length > 0 ? "bg-white" : "bg-muted/50"
     )}>
       <CardHeader className="pb-2">
         <div className="flex items-center justify-between">
@@ -56,85 +374,55 @@ const RouteDetails: React.FC<RouteDetailsProps> = ({ graph, route }) => {
           <div className="flex space-x-2">
             <Badge variant="outline" className="bg-primary/5">
               <Clock className="h-3 w-3 mr-1" />
-              {formatTime(route.totalTime)}
+              {formatTime(totalTime)}
             </Badge>
             <Badge variant="outline" className="bg-primary/5">
               <RouteIcon className="h-3 w-3 mr-1" />
-              {formatDistance(route.totalDistance)}
+              {formatDistance(totalDistance)}
             </Badge>
+            {totalCost !== undefined && (
+              <Badge variant="outline" className="bg-primary/5">
+                <Wallet className="h-3 w-3 mr-1" />
+                {formatMoney(totalCost, routes[0].cost.currency)}
+              </Badge>
+            )}
           </div>
         </div>
       </CardHeader>
       
       <CardContent>
-        <div className="space-y-3">
-          <div className="flex items-center text-sm">
-            <div className="font-medium">Optimized Route:</div>
-          </div>
-          
-          <div className="pl-2 space-y-2">
-            {route.path.map((pointId, index) => (
-              <React.Fragment key={pointId}>
-                <div className="flex items-center">
-                  <div className="relative">
-                    <div className={cn(
-                      "w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold",
-                      index === 0 ? "bg-primary text-white" : "bg-secondary text-foreground"
-                    )}>
-                      {pointId}
-                    </div>
-                    
-                    {/* Vertical line connecting points */}
-                    {index < route.path.length - 1 && (
-                      <div className="absolute top-6 left-1/2 h-6 w-0.5 -ml-px bg-muted-foreground/20" />
-                    )}
-                  </div>
-                  
-                  <div className="ml-3">
-                    <div className="font-medium">{graph.points[pointId].name}</div>
-                    {index < route.path.length - 1 && (
-                      <div className="text-xs text-muted-foreground">
-                        {/* Show distance and time to next point if available */}
-                        {graph.connections.find(c => 
-                          (c.from === pointId && c.to === route.path[index + 1]) || 
-                          (c.to === pointId && c.from === route.path[index + 1])
-                        ) && (
-                          <>
-                            {formatDistance(graph.connections.find(c => 
-                              (c.from === pointId && c.to === route.path[index + 1]) || 
-                              (c.to === pointId && c.from === route.path[index + 1])
-                            )!.distance)} • {
-                              formatTime(graph.connections.find(c => 
-                                (c.from === pointId && c.to === route.path[index + 1]) || 
-                                (c.to === pointId && c.from === route.path[index + 1])
-                              )!.time)
-                            }
-                          </>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </React.Fragment>
+        {fleetPlan ? (
+          <Tabs defaultValue={fleetPlan.routes[0]?.vehicle.id}>
+            <TabsList className="w-full justify-start overflow-x-auto">
+              {fleetPlan.routes.map(({ vehicle }, index) => (
+                <TabsTrigger key={vehicle.id} value={vehicle.id}>
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: vehicle.color ?? vehicleColor(index) }} />
+                  {vehicle.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {fleetPlan.routes.map(({ vehicle, route }) => (
+              <TabsContent key={vehicle.id} value={vehicle.id}>
+                {renderRoute(route)}
+              </TabsContent>
             ))}
+          </Tabs>
+        ) : (
+          <>
+            {choices.length > 1 && renderComparison(choices)}
+            {renderRoute(
+              shownRoute,
+              shownRoute === route ? 'Optimized Route:' : `Alternative ${selectedAlternative}:`
+            )}
+          </>
+        )}
+        
+        {fleetPlan && fleetPlan.unassigned.length > 0 && (
+          <div className="flex items-center text-xs text-destructive mt-3">
+            <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+            Not assigned to any vehicle: {fleetPlan.unassigned.map(id => graph.points[id]?.name ?? id).join(', ')}
           </div>
-          
-          <Separator className="my-2" />
-          
-          <div className="flex justify-between items-center text-sm">
-            <div className="text-muted-foreground">Total Distance:</div>
-            <div className="font-semibold">{formatDistance(route.totalDistance)}</div>
-          </div>
-          
-          <div className="flex justify-between items-center text-sm">
-            <div className="text-muted-foreground">Estimated Time:</div>
-            <div className="font-semibold">{formatTime(route.totalTime)}</div>
-          </div>
-          
-          <div className="text-xs text-muted-foreground mt-2 pt-2 border-t">
-            This route visits {route.path.length} points in the optimal order.
-          </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
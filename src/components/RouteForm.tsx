@@ -1,42 +1,224 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from '@/components/ui/use-toast';
-import { Graph, Point } from '@/utils/routeOptimization';
-import { PlusCircle, MinusCircle, RotateCw } from 'lucide-react';
+import DraftInput from '@/components/DraftInput';
+import { Graph, PickupDeliveryPair, Point, RouteMode, RouteOptions } from '@/utils/routeOptimization';
+import { Vehicle, vehicleColor } from '@/utils/fleetRouting';
+import { TRAVEL_PROFILES, TravelMode } from '@/utils/travelModes';
+import { RoadPreferences } from '@/utils/roadAttributes';
+import { createMoneyCost, DEFAULT_COST_MODEL } from '@/utils/routeCost';
+import { RouteRequest } from '@/utils/shareLink';
+import { ArrowRight, CalendarIcon, Clock, Package, PlusCircle, MinusCircle, RotateCw, Truck } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { format } from 'date-fns';
 
 interface RouteFormProps {
   graph: Graph;
-  onCalculateRoute: (startId: string, destinations: string[]) => void;
+  // `vehicles` is only passed when more than one vehicle is dispatched
+  onCalculateRoute: (startId: string, destinations: string[], options: RouteOptions, vehicles?: Vehicle[]) => void;
+  onUpdatePoint?: (id: string, changes: Partial<Point>) => void;
+  // Destinations live with the page so they can be saved with a plan
+  destinations: string[];
+  onDestinationsChange: (destinations: string[]) => void;
+  // Start and settings of a route opened from a shared link or file
+  loadedRequest?: RouteRequest | null;
+  // Pickup-and-delivery pairs live with the page so the map can show them
+  pairs?: PickupDeliveryPair[];
+  onPairsChange?: (pairs: PickupDeliveryPair[]) => void;
 }
 
-const RouteForm: React.FC<RouteFormProps> = ({ graph, onCalculateRoute }) => {
+type ObjectiveOption = 'shortest' | 'fastest' | 'balanced' | 'eco' | 'cheapest';
+
+const objectiveLabels: Record<ObjectiveOption, string> = {
+  shortest: 'Shortest distance',
+  fastest: 'Fastest time',
+  balanced: 'Balanced (distance + time)',
+  eco: 'Eco (lowest fuel use)',
+  cheapest: 'Lowest cost (fuel, tolls, driver)'
+};
+
+const modeLabels: Record<RouteMode, string> = {
+  open: 'End at last destination',
+  'round-trip': 'Return to starting point',
+  'fixed-end': 'End at a specific point'
+};
+
+const preferenceLabels: Record<keyof RoadPreferences, string> = {
+  avoidTolls: 'Avoid tolls',
+  preferMainRoads: 'Prefer main roads',
+  avoidUnpaved: 'Avoid unpaved roads',
+  allowRestricted: 'Allow restricted roads'
+};
+
+// How many alternatives to offer next to the optimal route
+const ALTERNATIVE_COUNTS = ['0', '1', '2', '3'];
+
+const LAST_MINUTE_OF_DAY = 24 * 60 - 1;
+
+// Select value for an extra vehicle that ends at its last stop
+const OPEN_END = '__open__';
+
+interface ExtraVehicle {
+  startId: string;
+  end: string; // OPEN_END, or the point to finish at (its own start for a round trip)
+  capacity: string; // empty for unlimited
+}
+
+// Empty capacity inputs mean the vehicle has no limit
+const toCapacity = (value: string) => (value ? Math.max(0, Number(value)) : undefined);
+
+// Convert between "HH:MM" input values and minutes after midnight
+const toMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTimeValue = (minutes: number) => {
+  const hours = Math.floor(minutes / 60) % 24;
+  const mins = Math.round(minutes % 60);
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+};
+
+const currentTimeValue = () => {
+  const now = new Date();
+  return toTimeValue(now.getHours() * 60 + now.getMinutes());
+};
+
+const RouteForm: React.FC<RouteFormProps> = ({
+  graph,
+  onCalculateRoute,
+  onUpdatePoint,
+  destinations,
+  onDestinationsChange,
+  loadedRequest,
+  pairs = [],
+  onPairsChange
+}) => {
   const [startId, setStartId] = useState('A'); // Default to 'A' (Car Park)
-  const [destinations, setDestinations] = useState<string[]>(['D']); // Default to 'D'
+  const [objective, setObjective] = useState<ObjectiveOption>('shortest');
+  const [mode, setMode] = useState<RouteMode>('open');
+  const [endId, setEndId] = useState('');
+  const [departureDate, setDepartureDate] = useState(() => new Date());
+  const [departure, setDeparture] = useState(currentTimeValue);
+  const [extraVehicles, setExtraVehicles] = useState<ExtraVehicle[]>([]);
+  const [capacity, setCapacity] = useState('');
+  const [alternatives, setAlternatives] = useState('2');
+  const [profile, setProfile] = useState<TravelMode>('driving');
+  const [preferences, setPreferences] = useState<RoadPreferences>({});
+  const [fuelPrice, setFuelPrice] = useState(String(DEFAULT_COST_MODEL.fuelPrice));
+  const [hourlyWage, setHourlyWage] = useState(String(DEFAULT_COST_MODEL.hourlyWage));
   const [isLoading, setIsLoading] = useState(false);
 
+  // Points deleted from the map drop out of the selections in progress;
+  // the page prunes the destinations
+  const previousPoints = useRef(graph.points);
+  useEffect(() => {
+    const removed = new Set(Object.keys(previousPoints.current).filter(id => !graph.points[id]));
+    previousPoints.current = graph.points;
+    if (removed.size === 0) return;
+    
+    setEndId(prev => (removed.has(prev) ? '' : prev));
+    setExtraVehicles(prev => prev.map(vehicle => ({
+      ...vehicle,
+      startId: removed.has(vehicle.startId) ? '' : vehicle.startId,
+      end: removed.has(vehicle.end) ? OPEN_END : vehicle.end
+    })));
+  }, [graph.points]);
+
+  // Show the settings a shared route was calculated with
+  useEffect(() => {
+    if (!loadedRequest) return;
+    
+    const { startId, options } = loadedRequest;
+    setStartId(startId);
+    setObjective(typeof options.objective === 'function' ? 'cheapest' : options.objective ?? 'shortest');
+    setMode(options.mode ?? 'open');
+    setEndId(options.endId ?? '');
+    if (options.departureTime) {
+      const departureTime = new Date(options.departureTime);
+      setDepartureDate(departureTime);
+      setDeparture(toTimeValue(departureTime.getHours() * 60 + departureTime.getMinutes()));
+    }
+    setExtraVehicles([]);
+    setCapacity(options.capacity === undefined ? '' : String(options.capacity));
+    setAlternatives(String(options.alternatives ?? 0));
+    setProfile(options.profile ?? 'driving');
+    setPreferences(options.preferences ?? {});
+    setFuelPrice(String(options.costModel?.fuelPrice ?? DEFAULT_COST_MODEL.fuelPrice));
+    setHourlyWage(String(options.costModel?.hourlyWage ?? DEFAULT_COST_MODEL.hourlyWage));
+  }, [loadedRequest]);
+
   // Helper to get sorted points for dropdowns
   const sortedPoints = Object.values(graph.points).sort((a, b) => a.id.localeCompare(b.id));
 
   const handleAddDestination = () => {
-    setDestinations([...destinations, '']);
+    onDestinationsChange([...destinations, '']);
   };
 
   const handleRemoveDestination = (index: number) => {
     const newDestinations = [...destinations];
     newDestinations.splice(index, 1);
-    setDestinations(newDestinations);
+    onDestinationsChange(newDestinations);
   };
 
   const handleChangeDestination = (index: number, value: string) => {
     const newDestinations = [...destinations];
     newDestinations[index] = value;
-    setDestinations(newDestinations);
+    onDestinationsChange(newDestinations);
+  };
+
+  const handleAddVehicle = () => {
+    setExtraVehicles([...extraVehicles, { startId: '', end: OPEN_END, capacity: '' }]);
+  };
+
+  const handleRemoveVehicle = (index: number) => {
+    setExtraVehicles(extraVehicles.filter((_, i) => i !== index));
+  };
+
+  const handleChangeVehicle = (index: number, changes: Partial<ExtraVehicle>) => {
+    setExtraVehicles(extraVehicles.map((vehicle, i) => (i === index ? { ...vehicle, ...changes } : vehicle)));
+  };
+
+  const handleAddPair = () => {
+    // Pair ids only need to be unique within the form
+    const nextNumber = pairs.reduce((max, pair) => Math.max(max, Number(pair.id.replace('pair-', '')) || 0), 0) + 1;
+    onPairsChange?.([...pairs, { id: `pair-${nextNumber}`, pickupId: '', deliveryId: '' }]);
+  };
+
+  const handleRemovePair = (index: number) => {
+    onPairsChange?.(pairs.filter((_, i) => i !== index));
+  };
+
+  const handleChangePair = (index: number, changes: Partial<PickupDeliveryPair>) => {
+    onPairsChange?.(pairs.map((pair, i) => (i === index ? { ...pair, ...changes } : pair)));
+  };
+
+  // Time window edits are stored on the point itself; clearing both ends removes the window
+  const handleChangeWindow = (pointId: string, field: 'start' | 'end', value: string) => {
+    const current = graph.points[pointId].timeWindows?.[0];
+    const next = { start: current?.start, end: current?.end, [field]: value ? toMinutes(value) : undefined };
+
+    onUpdatePoint?.(pointId, {
+      timeWindows: next.start === undefined && next.end === undefined
+        ? undefined
+        : [{ start: next.start ?? 0, end: next.end ?? LAST_MINUTE_OF_DAY }]
+    });
+  };
+
+  const handleChangeService = (pointId: string, value: string) => {
+    onUpdatePoint?.(pointId, { serviceDuration: value ? Math.max(0, Number(value)) : undefined });
+  };
+
+  const handleChangeDemand = (pointId: string, value: string) => {
+    onUpdatePoint?.(pointId, { demand: value ? Math.max(0, Number(value)) : undefined });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -53,7 +235,7 @@ const RouteForm: React.FC<RouteFormProps> = ({ graph, onCalculateRoute }) => {
     }
     
     const validDestinations = destinations.filter(d => d);
-    if (validDestinations.length === 0) {
+    if (validDestinations.length === 0 && pairs.length === 0) {
       toast({
         title: "Destinations Required",
         description: "Please add at least one destination.",
@@ -73,17 +255,110 @@ const RouteForm: React.FC<RouteFormProps> = ({ graph, onCalculateRoute }) => {
       return;
     }
 
+    if (pairs.some(pair => !pair.pickupId || !pair.deliveryId || pair.pickupId === pair.deliveryId)) {
+      toast({
+        title: "Incomplete Pickup & Delivery",
+        description: "Please choose a different pickup and delivery point for every pair.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (mode === 'fixed-end' && !endId) {
+      toast({
+        title: "End Point Required",
+        description: "Please select where the route should end.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (mode === 'fixed-end' && pairs.some(pair => pair.pickupId === endId)) {
+      toast({
+        title: "Pickup at the End Point",
+        description: "A load picked up where the route ends could never be delivered. Please choose another pickup point.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (extraVehicles.some(vehicle => !vehicle.startId)) {
+      toast({
+        title: "Vehicle Depot Required",
+        description: "Please select a starting depot for every vehicle.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The first vehicle follows the starting point and route end settings
+    const vehicles: Vehicle[] | undefined = extraVehicles.length > 0
+      ? [
+          {
+            id: 'vehicle-1',
+            name: 'Vehicle 1',
+            startId,
+            endId: mode === 'round-trip' ? startId : mode === 'fixed-end' ? endId : undefined,
+            color: vehicleColor(0),
+            capacity: toCapacity(capacity)
+          },
+          ...extraVehicles.map((vehicle, index) => ({
+            id: `vehicle-${index + 2}`,
+            name: `Vehicle ${index + 2}`,
+            startId: vehicle.startId,
+            endId: vehicle.end === OPEN_END ? undefined : vehicle.end,
+            color: vehicleColor(index + 1),
+            capacity: toCapacity(vehicle.capacity)
+          }))
+        ]
+      : undefined;
+
+    // Leave on the chosen day at the chosen time, or now if the time was cleared;
+    // with speed profiles this decides which rush hours the route runs into
+    const departureTime = departure ? new Date(departureDate) : new Date();
+    if (departure) departureTime.setHours(0, toMinutes(departure), 0, 0);
+
+    const costModel = {
+      ...DEFAULT_COST_MODEL,
+      fuelPrice: Math.max(0, Number(fuelPrice) || 0),
+      hourlyWage: Math.max(0, Number(hourlyWage) || 0)
+    };
+
     // Simulate loading state for better UX
     setIsLoading(true);
     setTimeout(() => {
-      onCalculateRoute(startId, validDestinations);
+      onCalculateRoute(startId, validDestinations, {
+        objective: objective === 'cheapest' ? createMoneyCost(costModel, profile) : objective,
+        mode,
+        endId: mode === 'fixed-end' ? endId : undefined,
+        departureTime: departureTime.getTime(),
+        capacity: toCapacity(capacity),
+        pairs: pairs.length > 0 ? pairs : undefined,
+        alternatives: Number(alternatives),
+        profile,
+        preferences,
+        costModel
+      }, vehicles);
       setIsLoading(false);
     }, 800);
   };
 
   const resetForm = () => {
     setStartId('A');
-    setDestinations(['D']);
+    onDestinationsChange(['D']);
+    setObjective('shortest');
+    setMode('open');
+    setEndId('');
+    setDepartureDate(new Date());
+    setDeparture(currentTimeValue());
+    setExtraVehicles([]);
+    setCapacity('');
+    setAlternatives('2');
+    setProfile('driving');
+    setPreferences({});
+    setFuelPrice(String(DEFAULT_COST_MODEL.fuelPrice));
+    setHourlyWage(String(DEFAULT_COST_MODEL.hourlyWage));
+    onPairsChange?.([]);
     toast({
       title: "Form Reset",
       description: "Your route has been reset to default values.",
@@ -135,39 +410,393 @@ const RouteForm: React.FC<RouteFormProps> = ({ graph, onCalculateRoute }) => {
           </div>
           
           {destinations.map((destination, index) => (
-            <div key={index} className="flex items-center space-x-2">
-              <div className="flex-1">
-                <Select 
-                  value={destination} 
-                  onValueChange={(value) => handleChangeDestination(index, value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select destination" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {sortedPoints
-                      .filter(point => point.id !== startId)
-                      .map((point) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <div className="flex-1">
+                  <Select 
+                    value={destination} 
+                    onValueChange={(value) => handleChangeDestination(index, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select destination" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortedPoints
+                        .filter(point => point.id !== startId)
+                        .map((point) => (
+                          <SelectItem key={point.id} value={point.id}>
+                            {point.name} ({point.id})
+                          </SelectItem>
+                        ))
+                      }
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {destinations.length > 1 && (
+                  <Button 
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemoveDestination(index)}
+                    className="h-8 w-8"
+                  >
+                    <MinusCircle className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                )}
+              </div>
+              
+              {/* Delivery window and service time for the selected point */}
+              {destination && graph.points[destination] && onUpdatePoint && (
+                <div key={destination} className="flex items-center space-x-2 pl-2 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3 shrink-0" />
+                  <DraftInput
+                    type="time"
+                    aria-label="Window opens"
+                    value={graph.points[destination].timeWindows?.[0] ? toTimeValue(graph.points[destination].timeWindows[0].start) : ''}
+                    onCommit={(value) => handleChangeWindow(destination, 'start', value)}
+                    className="h-7 text-xs"
+                  />
+                  <span>–</span>
+                  <DraftInput
+                    type="time"
+                    aria-label="Window closes"
+                    value={graph.points[destination].timeWindows?.[0] ? toTimeValue(graph.points[destination].timeWindows[0].end) : ''}
+                    onCommit={(value) => handleChangeWindow(destination, 'end', value)}
+                    className="h-7 text-xs"
+                  />
+                  <DraftInput
+                    type="number"
+                    min={0}
+                    aria-label="Service minutes"
+                    placeholder="min"
+                    value={graph.points[destination].serviceDuration}
+                    onCommit={(value) => handleChangeService(destination, value)}
+                    className="h-7 w-16 text-xs"
+                  />
+                  <DraftInput
+                    type="number"
+                    min={0}
+                    aria-label="Demand"
+                    placeholder="qty"
+                    value={graph.points[destination].demand}
+                    onCommit={(value) => handleChangeDemand(destination, value)}
+                    className="h-7 w-16 text-xs"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        
+        {onPairsChange && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Pickup &amp; Delivery</Label>
+              <Button 
+                type="button" 
+                variant="outline" 
+                size="sm" 
+                onClick={handleAddPair}
+                className="h-8"
+              >
+                <Package className="h-4 w-4 mr-1" />
+                Add Pair
+              </Button>
+            </div>
+            
+            {pairs.map((pair, index) => (
+              <div key={pair.id} className="flex items-center space-x-2">
+                <Badge variant="secondary" className="shrink-0">{index + 1}</Badge>
+                <div className="flex-1">
+                  <Select value={pair.pickupId} onValueChange={(value) => handleChangePair(index, { pickupId: value })}>
+                    <SelectTrigger aria-label={`Pair ${index + 1} pickup`}>
+                      <SelectValue placeholder="Pickup" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortedPoints.map((point) => (
                         <SelectItem key={point.id} value={point.id}>
                           {point.name} ({point.id})
                         </SelectItem>
-                      ))
-                    }
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              {destinations.length > 1 && (
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1">
+                  <Select value={pair.deliveryId} onValueChange={(value) => handleChangePair(index, { deliveryId: value })}>
+                    <SelectTrigger aria-label={`Pair ${index + 1} delivery`}>
+                      <SelectValue placeholder="Delivery" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sortedPoints
+                        .filter(point => point.id !== pair.pickupId)
+                        .map((point) => (
+                          <SelectItem key={point.id} value={point.id}>
+                            {point.name} ({point.id})
+                          </SelectItem>
+                        ))
+                      }
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  aria-label={`Pair ${index + 1} quantity`}
+                  placeholder="qty"
+                  value={pair.quantity ?? ''}
+                  onChange={(e) => handleChangePair(index, { quantity: toCapacity(e.target.value) })}
+                  className="h-10 w-16 text-xs"
+                />
                 <Button 
                   type="button"
                   variant="ghost"
                   size="icon"
-                  onClick={() => handleRemoveDestination(index)}
+                  onClick={() => handleRemovePair(index)}
                   className="h-8 w-8"
                 >
                   <MinusCircle className="h-4 w-4 text-muted-foreground" />
                 </Button>
-              )}
+              </div>
+            ))}
+          </div>
+        )}
+        
+        <div className="space-y-2">
+          <Label htmlFor="departure-time">Departure Time</Label>
+          <div className="flex items-center space-x-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" className="flex-1 justify-start font-normal">
+                  <CalendarIcon className="h-4 w-4 mr-2" />
+                  {format(departureDate, 'EEE, d MMM yyyy')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={departureDate}
+                  onSelect={(date) => date && setDepartureDate(date)}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <Input
+              id="departure-time"
+              type="time"
+              value={departure}
+              onChange={(e) => setDeparture(e.target.value)}
+              className="w-32"
+            />
+          </div>
+        </div>
+        
+        <Separator className="my-4" />
+        
+        <div className="space-y-2">
+          <Label htmlFor="travel-mode">Travel Mode</Label>
+          <Select value={profile} onValueChange={(value) => setProfile(value as TravelMode)}>
+            <SelectTrigger id="travel-mode">
+              <SelectValue placeholder="Select travel mode" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(TRAVEL_PROFILES).map((travelProfile) => (
+                <SelectItem key={travelProfile.mode} value={travelProfile.mode}>
+                  {travelProfile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="objective">Optimize For</Label>
+          <Select value={objective} onValueChange={(value) => setObjective(value as ObjectiveOption)}>
+            <SelectTrigger id="objective">
+              <SelectValue placeholder="Select objective" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(objectiveLabels) as ObjectiveOption[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {objectiveLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label>Road Preferences</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(preferenceLabels) as (keyof RoadPreferences)[]).map((key) => (
+              <div key={key} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`preference-${key}`}
+                  checked={Boolean(preferences[key])}
+                  onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, [key]: checked === true }))}
+                />
+                <Label htmlFor={`preference-${key}`} className="text-sm font-normal">
+                  {preferenceLabels[key]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+        
+        <div className="space-y-2">
+          <Label>Costs ({DEFAULT_COST_MODEL.currency})</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              aria-label="Fuel price per litre"
+              placeholder="Fuel / litre"
+              value={fuelPrice}
+              onChange={(e) => setFuelPrice(e.target.value)}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              aria-label="Driver wage per hour"
+              placeholder="Driver / hour"
+              value={hourlyWage}
+              onChange={(e) => setHourlyWage(e.target.value)}
+            />
+          </div>
+          <div className="text-xs text-muted-foreground">Fuel price per litre and driver wage per hour</div>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="alternatives">Alternative Routes</Label>
+          <Select value={alternatives} onValueChange={setAlternatives}>
+            <SelectTrigger id="alternatives">
+              <SelectValue placeholder="Select how many alternatives to show" />
+            </SelectTrigger>
+            <SelectContent>
+              {ALTERNATIVE_COUNTS.map((count) => (
+                <SelectItem key={count} value={count}>
+                  {count === '0' ? 'Optimal route only' : `Up to ${count} alternative${count !== '1' ? 's' : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="route-mode">Route End</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as RouteMode)}>
+            <SelectTrigger id="route-mode">
+              <SelectValue placeholder="Select where the route ends" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(modeLabels) as RouteMode[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {modeLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          
+          {mode === 'fixed-end' && (
+            <Select value={endId} onValueChange={setEndId}>
+              <SelectTrigger aria-label="End point">
+                <SelectValue placeholder="Select end point" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedPoints.map((point) => (
+                  <SelectItem key={point.id} value={point.id}>
+                    {point.name} ({point.id})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        
+        <Separator className="my-4" />
+        
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Vehicles</Label>
+            <Button 
+              type="button" 
+              variant="outline" 
+              size="sm" 
+              onClick={handleAddVehicle}
+              className="h-8"
+            >
+              <Truck className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          
+          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: vehicleColor(0) }} />
+            <span className="flex-1">Vehicle 1 uses the starting point and route end above</span>
+            <Input
+              type="number"
+              min={0}
+              aria-label="Vehicle 1 capacity"
+              placeholder="Capacity"
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+              className="h-8 w-24 text-xs"
+            />
+          </div>
+          
+          {extraVehicles.map((vehicle, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: vehicleColor(index + 1) }} />
+              <div className="flex-1">
+                <Select value={vehicle.startId} onValueChange={(value) => handleChangeVehicle(index, { startId: value })}>
+                  <SelectTrigger aria-label={`Vehicle ${index + 2} depot`}>
+                    <SelectValue placeholder="Depot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortedPoints.map((point) => (
+                      <SelectItem key={point.id} value={point.id}>
+                        {point.name} ({point.id})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1">
+                <Select value={vehicle.end} onValueChange={(value) => handleChangeVehicle(index, { end: value })}>
+                  <SelectTrigger aria-label={`Vehicle ${index + 2} end`}>
+                    <SelectValue placeholder="End" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OPEN_END}>Last destination</SelectItem>
+                    {sortedPoints.map((point) => (
+                      <SelectItem key={point.id} value={point.id}>
+                        {point.id === vehicle.startId ? `Back to ${point.name}` : `${point.name} (${point.id})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                type="number"
+                min={0}
+                aria-label={`Vehicle ${index + 2} capacity`}
+                placeholder="Capacity"
+                value={vehicle.capacity}
+                onChange={(e) => handleChangeVehicle(index, { capacity: e.target.value })}
+                className="h-10 w-24 text-xs"
+              />
+              <Button 
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveVehicle(index)}
+                className="h-8 w-8"
+              >
+                <MinusCircle className="h-4 w-4 text-muted-foreground" />
+              </Button>
             </div>
           ))}
         </div>
@@ -176,6 +805,11 @@ const RouteForm: React.FC<RouteFormProps> = ({ graph, onCalculateRoute }) => {
           <Badge variant="outline" className="mb-4">
             {destinations.filter(Boolean).length} destination{destinations.filter(Boolean).length !== 1 ? 's' : ''}
           </Badge>
+          {pairs.length > 0 && (
+            <Badge variant="outline" className="mb-4 ml-2">
+              {pairs.length} pickup &amp; delivery pair{pairs.length !== 1 ? 's' : ''}
+            </Badge>
+          )}
           
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading ? "Calculating..." : "Find Optimal Route"}
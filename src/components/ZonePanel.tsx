@@ -0,0 +1,79 @@
+import React from 'react';
+import { AvoidZone } from '@/utils/avoidance';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MinusCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ZonePanelProps {
+  zones: AvoidZone[];
+  onUpdateZone: (id: string, changes: Partial<AvoidZone>) => void;
+  onRemoveZone: (id: string) => void;
+}
+
+// Penalised zones make their connections this many times as expensive
+const ZONE_PENALTY = 3;
+
+const EXCLUDE = 'exclude';
+const PENALISE = 'penalise';
+
+const ZonePanel: React.FC<ZonePanelProps> = ({ zones, onUpdateZone, onRemoveZone }) => {
+  return (
+    <Card className="border shadow-sm animate-fade-in">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Avoid Zones</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {zones.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Draw a zone on the map to keep routes out of an area.
+          </div>
+        ) : (
+          zones.map((zone) => (
+            <div key={zone.id} className="flex items-center space-x-2">
+              <span
+                className={cn(
+                  "w-3 h-3 rounded-sm shrink-0",
+                  !zone.enabled ? "bg-gray-300" : zone.penalty === undefined ? "bg-red-500" : "bg-amber-500"
+                )}
+              />
+              <div className={cn("flex-1 text-sm truncate", !zone.enabled && "text-muted-foreground")}>
+                {zone.name}
+              </div>
+              <Select
+                value={zone.penalty === undefined ? EXCLUDE : PENALISE}
+                onValueChange={(value) => onUpdateZone(zone.id, { penalty: value === EXCLUDE ? undefined : ZONE_PENALTY })}
+              >
+                <SelectTrigger aria-label={`${zone.name} behaviour`} className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EXCLUDE}>Exclude</SelectItem>
+                  <SelectItem value={PENALISE}>Penalise ×{ZONE_PENALTY}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Switch
+                aria-label={`${zone.name} enabled`}
+                checked={zone.enabled}
+                onCheckedChange={(checked) => onUpdateZone(zone.id, { enabled: checked })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemoveZone(zone.id)}
+                className="h-8 w-8"
+              >
+                <MinusCircle className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ZonePanel;
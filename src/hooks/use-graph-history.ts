@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Graph } from '@/utils/routeOptimization';
+import { applyPatch, diffGraphs, HistoryEntry, isEmptyPatch } from '@/utils/graphHistory';
+
+const GRAPH_KEY = 'route-graph';
+const HISTORY_KEY = 'route-graph-history';
+
+// Bump when GraphPatch changes shape; older saved histories are dropped
+const HISTORY_VERSION = 1;
+const MAX_HISTORY = 100;
+
+interface StoredHistory {
+  version: number;
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+function loadJson<T>(key: string): T | null {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error(`Could not read ${key}:`, error);
+    return null;
+  }
+}
+
+function saveJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not save ${key}:`, error);
+  }
+}
+
+// The editable graph with undo and redo, saved to localStorage on every
+// change. All edits made in the same event (say, a new point and its
+// connections, or dropping a dragged marker) become one history entry.
+// `onChange` sees every new graph as it is set, so state that depends on the
+// graph can be updated in the same render.
+export function useGraphHistory(createInitialGraph: () => Graph, onChange?: (graph: Graph) => void) {
+  const [graph, setGraph] = useState<Graph>(() => {
+    const saved = loadJson<Graph>(GRAPH_KEY);
+    return saved?.points && saved.connections ? saved : createInitialGraph();
+  });
+  const [history, setHistory] = useState<Omit<StoredHistory, 'version'>>(() => {
+    const saved = loadJson<StoredHistory>(HISTORY_KEY);
+    return saved?.version === HISTORY_VERSION && loadJson(GRAPH_KEY)
+      ? { undo: saved.undo, redo: saved.redo }
+      : { undo: [], redo: [] };
+  });
+
+  // The latest graph, ahead of React state while an event is still editing it
+  const graphRef = useRef(graph);
+  const pendingRef = useRef<{ label: string; before: Graph } | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setCurrent = useCallback((next: Graph) => {
+    graphRef.current = next;
+    setGraph(next);
+    onChangeRef.current?.(next);
+  }, []);
+
+  useEffect(() => {
+    saveJson(GRAPH_KEY, graph);
+  }, [graph]);
+
+  useEffect(() => {
+    saveJson(HISTORY_KEY, { version: HISTORY_VERSION, ...history });
+  }, [history]);
+
+  // Record everything edited since the first edit of this event as one entry
+  const commit = useCallback(() => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+
+    const patch = diffGraphs(pending.before, graphRef.current);
+    if (isEmptyPatch(patch)) return;
+
+    setHistory(prev => ({
+      undo: [...prev.undo, { label: pending.label, patch }].slice(-MAX_HISTORY),
+      redo: []
+    }));
+  }, []);
+
+  const updateGraph = useCallback((label: string, updater: (graph: Graph) => Graph) => {
+    const before = graphRef.current;
+    const after = updater(before);
+    if (after === before) return;
+
+    setCurrent(after);
+
+    if (!pendingRef.current) {
+      pendingRef.current = { label, before };
+      queueMicrotask(commit);
+    }
+  }, [commit, setCurrent]);
+
+  const undo = useCallback(() => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry || pendingRef.current) return;
+
+    setCurrent(applyPatch(graphRef.current, entry.patch, 'undo'));
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, entry] });
+  }, [history, setCurrent]);
+
+  const redo = useCallback(() => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry || pendingRef.current) return;
+
+    setCurrent(applyPatch(graphRef.current, entry.patch, 'redo'));
+    setHistory({ undo: [...history.undo, entry], redo: history.redo.slice(0, -1) });
+  }, [history, setCurrent]);
+
+  // Swap in another graph, such as a saved plan, with a history of its own
+  const replaceGraph = useCallback((next: Graph) => {
+    pendingRef.current = null;
+    setCurrent(next);
+    setHistory({ undo: [], redo: [] });
+  }, [setCurrent]);
+
+  return {
+    graph,
+    updateGraph,
+    replaceGraph,
+    undo,
+    redo,
+    undoLabel: history.undo[history.undo.length - 1]?.label,
+    redoLabel: history.redo[history.redo.length - 1]?.label
+  };
+}
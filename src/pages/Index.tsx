@@ -1,22 +1,75 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import Layout from '@/components/Layout';
 import Map from '@/components/Map';
 import RouteForm from '@/components/RouteForm';
 import RouteDetails from '@/components/RouteDetails';
 import TokenInput from '@/components/TokenInput';
-import { findOptimalRoute, Route, Graph, Point } from '@/utils/routeOptimization';
+import ZonePanel from '@/components/ZonePanel';
+import ConnectionPanel from '@/components/ConnectionPanel';
+import { Connection, findOptimalRoute, Route, Graph, PickupDeliveryPair, Point, RouteOptions } from '@/utils/routeOptimization';
+import { findFleetRoutes, FleetPlan, Vehicle } from '@/utils/fleetRouting';
+import { haversineDistance, LatLng } from '@/utils/geo';
+import { AvoidZone, ConnectionRef, sameConnection } from '@/utils/avoidance';
+import { profileTime, TRAVEL_PROFILES } from '@/utils/travelModes';
 import { useToast } from '@/components/ui/use-toast';
+import { useGraphHistory } from '@/hooks/use-graph-history';
+import { createEmptyGraph, createPlan, getPlan, Plan, savePlan } from '@/utils/planStore';
+import {
+  decodeShareHash,
+  encodeShareHash,
+  fromSharedFile,
+  MAX_LINK_LENGTH,
+  RouteRequest,
+  SHARE_HASH_PREFIX,
+  SharedWorkspace,
+  toSharedFile
+} from '@/utils/shareLink';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
 import { nanoid } from 'nanoid';
-import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { FileUp, FolderOpen, Link2, Loader2, Save } from 'lucide-react';
+
+// The plan whose graph the saved workspace holds; reopening it after a reload
+// keeps the workspace and its undo history instead of loading the plan again
+const OPEN_PLAN_KEY = 'route-plan-id';
+
+// Wait for a pause in editing before writing the plan
+const AUTOSAVE_DELAY = 500;
 
 const Index = () => {
   const [mapboxToken, setMapboxToken] = useState<string>('');
   const [calculatedRoute, setCalculatedRoute] = useState<Route | null>(null);
-  const [customGraph, setCustomGraph] = useState<Graph>({
-    points: {},
-    connections: []
-  });
+  const [fleetPlan, setFleetPlan] = useState<FleetPlan | null>(null);
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  // How the current route was calculated, so a shared link can calculate it again
+  const [routeRequest, setRouteRequest] = useState<RouteRequest | null>(null);
+  const [loadedRequest, setLoadedRequest] = useState<RouteRequest | null>(null);
+  // Routes through points that were deleted or undone can no longer be drawn.
+  // They are dropped in the same update as the graph, before anything renders them.
+  const dropStaleRoutes = useCallback((graph: Graph) => {
+    const isStale = (route: Route) => route.path.some(id => !graph.points[id]);
+    setCalculatedRoute(prev => (prev && [prev, ...(prev.alternatives ?? [])].some(isStale) ? null : prev));
+    setFleetPlan(prev => (prev?.routes.some(({ route }) => isStale(route)) ? null : prev));
+  }, []);
+  const { graph: customGraph, updateGraph, replaceGraph, undo, redo, undoLabel, redoLabel } = useGraphHistory(
+    createEmptyGraph,
+    dropStaleRoutes
+  );
+  const [destinations, setDestinations] = useState<string[]>(['D']);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  // What the open plan last held in storage, so opening it does not count as a change
+  const savedPlanRef = useRef<Pick<Plan, 'graph' | 'destinations' | 'route'> | null>(null);
+  const { id: planId } = useParams();
+  const navigate = useNavigate();
+  // A plan or shared link opened on arrival brings its own starting point
+  const openedOnLoadRef = useRef(Boolean(planId) || window.location.hash.startsWith(SHARE_HASH_PREFIX));
+  const [pairs, setPairs] = useState<PickupDeliveryPair[]>([]);
+  const [closedConnections, setClosedConnections] = useState<ConnectionRef[]>([]);
+  const [selectedConnection, setSelectedConnection] = useState<ConnectionRef | null>(null);
+  const [autoConnect, setAutoConnect] = useState(true);
   const [userLocation, setUserLocation] = useState<{ lng: number, lat: number } | null>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const { toast } = useToast();
@@ -39,8 +92,14 @@ const Index = () => {
           });
           setIsLoadingLocation(false);
           
-          // Add user's location as starting point A
-          addCustomPoint('A', 'Current Location', position.coords.latitude, position.coords.longitude);
+          // Add user's location as starting point A, unless the graph has one by now
+          if (openedOnLoadRef.current) return;
+          const { latitude: lat, longitude: lng } = position.coords;
+          updateGraph('Set starting point', prevGraph => (
+            prevGraph.points.A
+              ? prevGraph
+              : { ...prevGraph, points: { ...prevGraph.points, A: { id: 'A', name: 'Current Location', lat, lng } } }
+          ));
         },
         (error) => {
           console.error('Error getting location:', error);
@@ -53,7 +112,234 @@ const Index = () => {
         }
       );
     }
-  }, []);
+  }, [updateGraph, toast]);
+
+  // Open the plan named in the URL, or leave the workspace as it is on the home page
+  useEffect(() => {
+    setPlan(null);
+    if (!planId) {
+      localStorage.removeItem(OPEN_PLAN_KEY);
+      return;
+    }
+    
+    let cancelled = false;
+    getPlan(planId)
+      .then(saved => {
+        if (cancelled) return;
+        if (!saved) {
+          toast({
+            title: "Plan Not Found",
+            description: "This plan may have been deleted. Pick another one from your saved plans.",
+            variant: "destructive"
+          });
+          navigate('/plans');
+          return;
+        }
+        
+        if (localStorage.getItem(OPEN_PLAN_KEY) !== saved.id) {
+          replaceGraph(saved.graph);
+          localStorage.setItem(OPEN_PLAN_KEY, saved.id);
+        }
+        setDestinations(saved.destinations.length > 0 ? saved.destinations : ['']);
+        setCalculatedRoute(saved.route);
+        setRouteRequest(null);
+        setSelectedAlternative(0);
+        setFleetPlan(null);
+        savedPlanRef.current = saved;
+        setPlan(saved);
+      })
+      .catch(error => {
+        console.error('Error loading plan:', error);
+        toast({
+          title: "Plans Error",
+          description: "Could not load the plan.",
+          variant: "destructive"
+        });
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [planId, replaceGraph, navigate, toast]);
+
+  // Keep the open plan in step with the workspace
+  useEffect(() => {
+    const contents = { graph: customGraph, destinations: destinations.filter(Boolean), route: calculatedRoute };
+    const saved = savedPlanRef.current;
+    if (!plan || (saved
+      && saved.graph === contents.graph
+      && saved.route === contents.route
+      && saved.destinations.join() === contents.destinations.join())) return;
+    
+    const timer = setTimeout(() => {
+      savedPlanRef.current = contents;
+      savePlan({ ...plan, ...contents }).catch(error => console.error('Error saving plan:', error));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [plan, customGraph, destinations, calculatedRoute]);
+
+  // Save the workspace as a new plan and carry on editing it there
+  const handleSaveAsPlan = async () => {
+    try {
+      const saved = await createPlan(`Plan ${format(new Date(), 'd MMM yyyy, HH:mm')}`, {
+        graph: customGraph,
+        destinations: destinations.filter(Boolean),
+        route: calculatedRoute
+      });
+      localStorage.setItem(OPEN_PLAN_KEY, saved.id);
+      navigate(`/plans/${saved.id}`);
+      toast({
+        title: "Plan Saved",
+        description: `Saved as "${saved.name}". Rename it from your saved plans.`,
+      });
+    } catch (error) {
+      console.error('Error saving plan:', error);
+      toast({
+        title: "Plans Error",
+        description: "Could not save the plan.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Open a shared plan in place of the workspace; the swap can be undone like any edit
+  const openSharedWorkspace = useCallback((shared: SharedWorkspace) => {
+    updateGraph('Open shared plan', () => shared.graph);
+    setDestinations(shared.destinations.length > 0 ? shared.destinations : ['']);
+    setPairs(shared.request?.options.pairs ?? []);
+    setClosedConnections(shared.request?.options.avoid?.connections ?? []);
+    setFleetPlan(null);
+    setSelectedAlternative(0);
+    setLoadedRequest(shared.request);
+    
+    // Drive the stops in the order they were sent; the strategy that found it
+    // is kept so the route reads as it did for the sender
+    const { order } = shared;
+    const route = shared.request
+      ? findOptimalRoute(shared.graph, shared.request.startId, shared.destinations, {
+          ...shared.request.options,
+          stopOrder: order?.stops
+        })
+      : null;
+    setCalculatedRoute(route?.strategy === 'given' && order?.strategy ? { ...route, strategy: order.strategy } : route);
+    setRouteRequest(route ? shared.request : null);
+  }, [updateGraph]);
+
+  const showShareError = useCallback((error: unknown) => {
+    console.error('Error opening shared plan:', error);
+    toast({
+      title: "Share Error",
+      description: error instanceof Error ? error.message : "Could not open the shared plan.",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  // Links carry the plan in the hash, which is cleared once read so a reload
+  // keeps any edits made since
+  useEffect(() => {
+    const { hash, pathname, search } = window.location;
+    decodeShareHash(hash)
+      .then(shared => {
+        if (!shared) return;
+        window.history.replaceState(null, '', pathname + search);
+        openSharedWorkspace(shared);
+        toast({
+          title: "Shared Plan Opened",
+          description: "Press Ctrl+Z to go back to your own points.",
+        });
+      })
+      .catch(showShareError);
+  }, [openSharedWorkspace, showShareError, toast]);
+
+  const sharedWorkspace = (): SharedWorkspace => ({
+    graph: customGraph,
+    destinations: destinations.filter(Boolean),
+    request: calculatedRoute ? routeRequest : null,
+    order: calculatedRoute?.stops && { stops: calculatedRoute.stops, strategy: calculatedRoute.strategy },
+    summary: calculatedRoute && {
+      path: calculatedRoute.path,
+      totalDistance: calculatedRoute.totalDistance,
+      totalTime: calculatedRoute.totalTime,
+      cost: calculatedRoute.cost,
+      emissions: calculatedRoute.emissions
+    }
+  });
+
+  const downloadSharedFile = (workspace: SharedWorkspace) => {
+    const url = URL.createObjectURL(new Blob([toSharedFile(workspace)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `route-plan-${format(new Date(), 'yyyy-MM-dd-HHmm')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Copy a link to the stops and route, or offer a file when the link would be too long
+  const handleShare = async () => {
+    const workspace = sharedWorkspace();
+    try {
+      const link = `${window.location.origin}/${await encodeShareHash(workspace)}`;
+      
+      if (link.length > MAX_LINK_LENGTH) {
+        toast({
+          title: "Link Too Long",
+          description: `This plan needs a ${link.length.toLocaleString()} character link, too long for most chat apps. Send it as a file instead.`,
+          variant: "destructive",
+          action: (
+            <ToastAction altText="Download the plan as a file" onClick={() => downloadSharedFile(workspace)}>
+              Download
+            </ToastAction>
+          )
+        });
+        return;
+      }
+      
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Link Copied",
+        description: workspace.request
+          ? "Anyone opening the link sees these stops and this route."
+          : "Anyone opening the link sees these stops. Calculate a route first to share it too.",
+      });
+    } catch (error) {
+      console.error('Error sharing plan:', error);
+      toast({
+        title: "Share Error",
+        description: "Could not create a link for this plan.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      openSharedWorkspace(fromSharedFile(await file.text()));
+    } catch (error) {
+      showShareError(error);
+    }
+  };
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes graph edits; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, [contenteditable="true"]')) return;
+      
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Handle token submission
   const handleTokenSubmit = (token: string) => {
@@ -62,7 +348,7 @@ const Index = () => {
 
   // Add a custom point to the graph
   const addCustomPoint = (id: string, name: string, lat: number, lng: number) => {
-    setCustomGraph(prevGraph => {
+    updateGraph(id === 'A' ? 'Set starting point' : 'Add point', prevGraph => {
       const newPoints = { ...prevGraph.points };
       newPoints[id] = { id, name, lat, lng };
       
@@ -73,9 +359,75 @@ const Index = () => {
     });
   };
 
+  // Update stored attributes of an existing point
+  const updatePoint = useCallback((id: string, changes: Partial<Point>) => {
+    updateGraph('Edit point', prevGraph => {
+      if (!prevGraph.points[id]) return prevGraph;
+      
+      return {
+        ...prevGraph,
+        points: {
+          ...prevGraph.points,
+          [id]: { ...prevGraph.points[id], ...changes }
+        }
+      };
+    });
+  }, [updateGraph]);
+
+  const renamePoint = useCallback((id: string, name: string) => updatePoint(id, { name }), [updatePoint]);
+
+  // Move a point and re-measure its connections, keeping each one's average speed
+  const movePoint = useCallback((id: string, lat: number, lng: number) => {
+    updateGraph('Move point', prevGraph => {
+      if (!prevGraph.points[id]) return prevGraph;
+      
+      const points = { ...prevGraph.points, [id]: { ...prevGraph.points[id], lat, lng } };
+      return {
+        ...prevGraph,
+        points,
+        connections: prevGraph.connections.map(conn => {
+          if (conn.from !== id && conn.to !== id) return conn;
+          
+          const distance = haversineDistance(points[conn.from], points[conn.to]);
+          const time = conn.distance > 0
+            ? conn.time * (distance / conn.distance)
+            : profileTime(TRAVEL_PROFILES.driving, { ...conn, distance });
+          return { ...conn, distance, time };
+        })
+      };
+    });
+  }, [updateGraph]);
+
+  // Remove a point together with its connections and everything that refers to it
+  const deletePoint = useCallback((id: string) => {
+    updateGraph('Delete point', prevGraph => {
+      const { [id]: _removed, ...points } = prevGraph.points;
+      return {
+        ...prevGraph,
+        points,
+        connections: prevGraph.connections.filter(conn => conn.from !== id && conn.to !== id)
+      };
+    });
+    setPairs(prev => prev.filter(pair => pair.pickupId !== id && pair.deliveryId !== id));
+    setClosedConnections(prev => prev.filter(ref => ref.from !== id && ref.to !== id));
+  }, [updateGraph]);
+
+  // Points deleted or undone on the map drop out of the destinations
+  const previousPoints = useRef(customGraph.points);
+  useEffect(() => {
+    const removed = new Set(Object.keys(previousPoints.current).filter(id => !customGraph.points[id]));
+    previousPoints.current = customGraph.points;
+    if (removed.size === 0) return;
+    
+    setDestinations(prev => {
+      const remaining = prev.filter(id => !removed.has(id));
+      return remaining.length > 0 ? remaining : [''];
+    });
+  }, [customGraph.points]);
+
   // Add connection between two points
-  const addConnection = (fromId: string, toId: string, distance: number, time: number) => {
-    setCustomGraph(prevGraph => {
+  const addConnection = useCallback((fromId: string, toId: string, distance: number, time: number) => {
+    updateGraph('Add connection', prevGraph => {
       return {
         ...prevGraph,
         connections: [
@@ -84,6 +436,47 @@ const Index = () => {
         ]
       };
     });
+  }, [updateGraph]);
+
+  // Connect two points drawn on the map with a straight connection, or select
+  // the connection already between them
+  const createConnection = useCallback((fromId: string, toId: string) => {
+    const existing = customGraph.connections.find(conn => sameConnection(conn, { from: fromId, to: toId }));
+    if (existing) {
+      setSelectedConnection({ from: existing.from, to: existing.to });
+      toast({
+        title: "Already Connected",
+        description: "These points are already connected; its details are open for editing.",
+      });
+      return;
+    }
+    
+    const from = customGraph.points[fromId];
+    const to = customGraph.points[toId];
+    if (!from || !to) return;
+    
+    const distance = haversineDistance(from, to);
+    addConnection(fromId, toId, distance, profileTime(TRAVEL_PROFILES.driving, { distance }));
+    setSelectedConnection({ from: fromId, to: toId });
+  }, [customGraph, addConnection, toast]);
+
+  const deleteConnection = useCallback((ref: ConnectionRef) => {
+    updateGraph('Delete connection', prevGraph => ({
+      ...prevGraph,
+      connections: prevGraph.connections.filter(conn => conn.from !== ref.from || conn.to !== ref.to)
+    }));
+    setClosedConnections(prev => prev.filter(closed => !sameConnection(closed, ref)));
+    setSelectedConnection(null);
+  }, [updateGraph]);
+
+  // Update attributes of the connection running from one point to another
+  const updateConnection = (ref: ConnectionRef, changes: Partial<Connection>) => {
+    updateGraph('Edit connection', prevGraph => ({
+      ...prevGraph,
+      connections: prevGraph.connections.map(conn =>
+        conn.from === ref.from && conn.to === ref.to ? { ...conn, ...changes } : conn
+      )
+    }));
   };
 
   // Handle location selection from map
@@ -95,49 +488,77 @@ const Index = () => {
       // Update user location
       setUserLocation({ lng, lat });
     } else {
-      // For destinations, generate a new ID
-      const newId = `D${Object.keys(customGraph.points).filter(id => id.startsWith('D')).length + 1}`;
+      // For destinations, generate a new ID that deleted or undone points have not left in use
+      let count = Object.keys(customGraph.points).filter(id => id.startsWith('D')).length + 1;
+      while (customGraph.points[`D${count}`]) count++;
+      const newId = `D${count}`;
       addCustomPoint(newId, `Destination ${newId}`, lat, lng);
       
+      // Without automatic connections the new point waits to be connected by hand
+      if (!autoConnect) return;
+      
       // Add connections from this point to all existing points
       Object.keys(customGraph.points).forEach(existingId => {
         if (existingId !== newId) {
           const existingPoint = customGraph.points[existingId];
-          const distance = calculateDistance(
-            lat, lng, 
-            existingPoint.lat, existingPoint.lng
-          );
-          // Estimate time based on distance (assuming 60 km/h average speed)
-          const time = (distance / 60) * 60; // convert to minutes
+          const distance = haversineDistance({ lat, lng }, existingPoint);
+          // Stored time is the driving time; other travel modes derive their own
+          const time = profileTime(TRAVEL_PROFILES.driving, { distance });
           
-          // Add bidirectional connections
+          // Connections are two-way unless marked oneWay
           addConnection(newId, existingId, distance, time);
-          addConnection(existingId, newId, distance, time);
         }
       });
     }
   };
 
-  // Calculate distance between two points in kilometers using the Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Radius of the earth in km
-    const dLat = deg2rad(lat2 - lat1);
-    const dLon = deg2rad(lon2 - lon1);
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2); 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-    const distance = R * c; // Distance in km
-    return distance;
+  // Avoid zones are stored on the graph so they travel with it
+  const addZone = (polygon: LatLng[]) => {
+    updateGraph('Add zone', prevGraph => {
+      const zones = prevGraph.zones ?? [];
+      return {
+        ...prevGraph,
+        zones: [...zones, { id: nanoid(), name: `Zone ${zones.length + 1}`, polygon, enabled: true }]
+      };
+    });
+  };
+
+  const updateZone = (id: string, changes: Partial<AvoidZone>) => {
+    updateGraph('Edit zone', prevGraph => ({
+      ...prevGraph,
+      zones: prevGraph.zones?.map(zone => (zone.id === id ? { ...zone, ...changes } : zone))
+    }));
   };
 
-  const deg2rad = (deg: number) => {
-    return deg * (Math.PI/180);
+  const removeZone = (id: string) => {
+    updateGraph('Remove zone', prevGraph => ({
+      ...prevGraph,
+      zones: prevGraph.zones?.filter(zone => zone.id !== id)
+    }));
   };
 
+  // Close a connection, or reopen it if it is already closed
+  const handleToggleConnection = useCallback((from: string, to: string) => {
+    setClosedConnections(prev => {
+      const ref = { from, to };
+      return prev.some(closed => sameConnection(closed, ref))
+        ? prev.filter(closed => !sameConnection(closed, ref))
+        : [...prev, ref];
+    });
+  }, []);
+
   // Handle calculate route
-  const handleCalculateRoute = (startId: string, destinations: string[]) => {
+  const handleCalculateRoute = (
+    startId: string,
+    destinations: string[],
+    formOptions: RouteOptions,
+    vehicles?: Vehicle[]
+  ) => {
+    // Roads closed on the map are avoided by every kind of route
+    const options: RouteOptions = closedConnections.length > 0
+      ? { ...formOptions, avoid: { ...formOptions.avoid, connections: closedConnections } }
+      : formOptions;
+    
     try {
       // Use custom graph if it has points, otherwise use sample graph
       const graphToUse = Object.keys(customGraph.points).length > 0 ? customGraph : undefined;
@@ -151,7 +572,12 @@ const Index = () => {
         return;
       }
       
-      const optimizedRoute = findOptimalRoute(graphToUse, startId, destinations);
+      if (vehicles) {
+        handleCalculateFleet(graphToUse, vehicles, destinations, options);
+        return;
+      }
+      
+      const optimizedRoute = findOptimalRoute(graphToUse, startId, destinations, options);
       
       if (!optimizedRoute) {
         toast({
@@ -163,10 +589,24 @@ const Index = () => {
       }
       
       setCalculatedRoute(optimizedRoute);
+      setRouteRequest({ startId, options });
+      setSelectedAlternative(0);
+      setFleetPlan(null);
+      
+      if (optimizedRoute.unserved) {
+        toast({
+          title: "Some Destinations Skipped",
+          description: `${optimizedRoute.unserved.length} destination(s) could not be served within the vehicle's capacity or reach.`,
+          variant: "destructive"
+        });
+        return;
+      }
       
       toast({
         title: "Route Calculated",
-        description: `Found optimal route visiting ${optimizedRoute.path.length} points.`,
+        description: optimizedRoute.strategy === 'greedy' || optimizedRoute.strategy === 'local-search'
+          ? `Found an approximate route visiting ${optimizedRoute.path.length} points.`
+          : `Found optimal route visiting ${optimizedRoute.path.length} points.`,
       });
     } catch (error) {
       console.error('Error calculating route:', error);
@@ -178,10 +618,48 @@ const Index = () => {
     }
   };
 
+  // Split the destinations among several vehicles
+  const handleCalculateFleet = (
+    graph: Graph,
+    vehicles: Vehicle[],
+    destinations: string[],
+    options: RouteOptions
+  ) => {
+    const { mode, endId, capacity, alternatives, ...fleetOptions } = options;
+    const plan = findFleetRoutes(graph, vehicles, destinations, fleetOptions);
+    
+    if (plan.routes.length === 0) {
+      toast({
+        title: "Route Error",
+        description: "None of the vehicles can reach the selected destinations.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setFleetPlan(plan);
+    setCalculatedRoute(null);
+    
+    toast({
+      title: "Routes Calculated",
+      description: plan.unassigned.length > 0
+        ? `Planned ${plan.routes.length} vehicle routes; ${plan.unassigned.length} destination(s) could not be assigned.`
+        : `Planned ${plan.routes.length} vehicle routes covering all destinations.`,
+      variant: plan.unassigned.length > 0 ? "destructive" : "default"
+    });
+  };
+
+  // The optimal route first, then the alternatives the dispatcher can pick from
+  const routeChoices = useMemo(
+    () => (calculatedRoute ? [calculatedRoute, ...(calculatedRoute.alternatives ?? [])] : []),
+    [calculatedRoute]
+  );
+  
   // Determine which graph to use
   const activeGraph = Object.keys(customGraph.points).length > 0 ? customGraph : { 
     points: { 'A': { id: 'A', name: 'Starting Point', lat: 40.712776, lng: -74.005974 } },
-    connections: []
+    connections: [],
+    zones: customGraph.zones
   };
 
   return (
@@ -192,6 +670,33 @@ const Index = () => {
           <p className="mt-4 text-lg text-muted-foreground">
             Find the most efficient path between multiple destinations with our advanced route optimization algorithm.
           </p>
+          <div className="flex items-center justify-center space-x-2 mt-4">
+            {plan ? (
+              <span className="text-sm font-medium">Plan: {plan.name}</span>
+            ) : (
+              <Button variant="outline" size="sm" onClick={handleSaveAsPlan} disabled={Boolean(planId)}>
+                <Save className="h-4 w-4 mr-1" />
+                Save as plan
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleShare}>
+              <Link2 className="h-4 w-4 mr-1" />
+              Share link
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <label className="cursor-pointer">
+                <FileUp className="h-4 w-4 mr-1" />
+                Open file
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleOpenFile} />
+              </label>
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/plans">
+                <FolderOpen className="h-4 w-4 mr-1" />
+                Saved plans
+              </Link>
+            </Button>
+          </div>
           {isLoadingLocation && (
             <div className="flex items-center justify-center mt-4">
               <Loader2 className="animate-spin mr-2 h-5 w-5 text-primary" />
@@ -210,18 +715,61 @@ const Index = () => {
               <RouteForm
                 graph={activeGraph}
                 onCalculateRoute={handleCalculateRoute}
+                onUpdatePoint={updatePoint}
+                destinations={destinations}
+                onDestinationsChange={setDestinations}
+                loadedRequest={loadedRequest}
+                pairs={pairs}
+                onPairsChange={setPairs}
               />
               
               <RouteDetails
                 graph={activeGraph}
                 route={calculatedRoute}
+                fleetPlan={fleetPlan}
+                selectedAlternative={selectedAlternative}
+                onSelectAlternative={setSelectedAlternative}
+              />
+              
+              <ZonePanel
+                zones={activeGraph.zones ?? []}
+                onUpdateZone={updateZone}
+                onRemoveZone={removeZone}
+              />
+              
+              <ConnectionPanel
+                graph={activeGraph}
+                selected={selectedConnection}
+                onSelect={setSelectedConnection}
+                onUpdateConnection={updateConnection}
+                onDeleteConnection={deleteConnection}
+                autoConnect={autoConnect}
+                onAutoConnectChange={setAutoConnect}
               />
             </div>
             
             <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border overflow-hidden h-[calc(100vh-20rem)] min-h-[500px]">
               <Map
                 graph={activeGraph}
-                route={calculatedRoute}
+                route={routeChoices[selectedAlternative] ?? calculatedRoute}
+                alternatives={routeChoices}
+                selectedAlternative={selectedAlternative}
+                onSelectAlternative={setSelectedAlternative}
+                fleetRoutes={fleetPlan?.routes}
+                pairs={pairs}
+                closedConnections={closedConnections}
+                onToggleConnection={handleToggleConnection}
+                onZoneCreate={addZone}
+                onMovePoint={movePoint}
+                onRenamePoint={renamePoint}
+                onDeletePoint={deletePoint}
+                onCreateConnection={createConnection}
+                selectedConnection={selectedConnection}
+                onSelectConnection={setSelectedConnection}
+                onUndo={undo}
+                onRedo={redo}
+                undoLabel={undoLabel}
+                redoLabel={redoLabel}
                 mapboxToken={mapboxToken}
                 onLocationSelect={handleLocationSelect}
                 userLocation={userLocation}
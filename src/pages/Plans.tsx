@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { createPlan, deletePlan, duplicatePlan, listPlans, Plan, renamePlan } from '@/utils/planStore';
+import { format } from 'date-fns';
+import { Check, Copy, Loader2, Pencil, PlusCircle, Trash2, X } from 'lucide-react';
+
+const Plans = () => {
+  const [plans, setPlans] = useState<Plan[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Run a change to the saved plans, then show the list as stored
+  const change = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      setPlans(await listPlans());
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Plans Error",
+        description: failure,
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  // Nothing to change on the first visit, just the list to load
+  useEffect(() => {
+    change(async () => {}, "Could not load your saved plans.");
+  }, [change]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const plan = await createPlan(newName.trim() || `Plan ${(plans?.length ?? 0) + 1}`);
+      navigate(`/plans/${plan.id}`);
+    } catch (error) {
+      console.error('Error creating plan:', error);
+      toast({
+        title: "Plans Error",
+        description: "Could not create the plan.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRename = (id: string) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (name) change(() => renamePlan(id, name), "Could not rename the plan.");
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 px-4 sm:px-6 max-w-3xl">
+        <div className="mb-8 animate-fade-in">
+          <h1 className="text-3xl font-bold tracking-tight">Saved Plans</h1>
+          <p className="mt-2 text-muted-foreground">
+            Plans keep their points, connections, destinations and last calculated route in this browser.
+          </p>
+        </div>
+
+        <Card className="border shadow-sm animate-fade-in">
+          <CardHeader className="pb-2">
+            <form onSubmit={handleCreate} className="flex items-center space-x-2">
+              <Input
+                aria-label="New plan name"
+                placeholder="New plan name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <Button type="submit">
+                <PlusCircle className="h-4 w-4 mr-1" />
+                Create
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <CardTitle className="text-lg pt-2">Plans</CardTitle>
+            {plans === null ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                <Loader2 className="animate-spin mr-2 h-5 w-5" />
+                Loading plans...
+              </div>
+            ) : plans.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">
+                No saved plans yet
+              </div>
+            ) : (
+              plans.map((plan) => (
+                <div key={plan.id} className="flex items-center space-x-2 rounded-md border p-3">
+                  {editingId === plan.id ? (
+                    <form
+                      className="flex flex-1 items-center space-x-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleRename(plan.id);
+                      }}
+                    >
+                      <Input
+                        autoFocus
+                        aria-label="Plan name"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        className="h-8"
+                      />
+                      <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" title="Save name">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Cancel"
+                        onClick={() => setEditingId(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <Link to={`/plans/${plan.id}`} className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{plan.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {Object.keys(plan.graph.points).length} points • {plan.destinations.length} destinations
+                        {' • '}updated {format(new Date(plan.updatedAt), 'd MMM yyyy, HH:mm')}
+                      </div>
+                    </Link>
+                  )}
+                  {editingId !== plan.id && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Rename"
+                        onClick={() => {
+                          setEditingId(plan.id);
+                          setEditingName(plan.name);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Duplicate"
+                        onClick={() => change(() => duplicatePlan(plan.id), "Could not duplicate the plan.")}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Delete">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {plan.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The plan's points, connections and route are removed from this browser.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => change(() => deletePlan(plan.id), "Could not delete the plan.")}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Plans;
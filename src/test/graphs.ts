@@ -0,0 +1,117 @@
+import type { ConnectionType, Graph } from '@/utils/routeOptimization';
+import { haversineDistance } from '@/utils/geo';
+
+// Seeded pseudo-random numbers (mulberry32), so fixtures are the same on every run
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const gridId = (row: number, column: number) => `${row}:${column}`;
+
+// A square street grid of side × side points, blocks about 110 m apart.
+// Streets run a little longer than the straight line between their corners
+// and are driven at 20 to 50 km/h.
+export function createGridGraph(side: number, random = createRandom(1)): Graph {
+  const points: Graph['points'] = {};
+  const connections: Graph['connections'] = [];
+
+  const connect = (from: string, to: string) => {
+    const distance = haversineDistance(points[from], points[to]) * (1 + random() * 0.3);
+    connections.push({ from, to, distance, time: (distance / (20 + random() * 30)) * 60 });
+  };
+
+  for (let row = 0; row < side; row++) {
+    for (let column = 0; column < side; column++) {
+      const id = gridId(row, column);
+      points[id] = { id, name: id, lat: 40.7 + row * 0.001, lng: -74 + column * 0.0013 };
+      if (column > 0) connect(gridId(row, column - 1), id);
+      if (row > 0) connect(gridId(row - 1, column), id);
+    }
+  }
+
+  return { points, connections };
+}
+
+const CONNECTION_TYPES: ConnectionType[] = ['road', 'road', 'motorway', 'cycleway', 'footpath'];
+
+// Points scattered over a few kilometres, each joined to its nearest
+// neighbours. Road types and speed limits vary so every travel mode sees a
+// different graph; some connections are one-way, and some are entered
+// shorter than the straight line between their ends.
+export function createRandomGraph(size: number, random = createRandom(1)): Graph {
+  const points: Graph['points'] = {};
+  const connections: Graph['connections'] = [];
+  const ids = Array.from({ length: size }, (_, i) => `P${i}`);
+
+  ids.forEach(id => {
+    points[id] = { id, name: id, lat: 40.7 + random() * 0.05, lng: -74 + random() * 0.05 };
+  });
+
+  const linked = new Set<string>();
+  ids.forEach(from => {
+    const nearest = ids
+      .filter(to => to !== from)
+      .sort((a, b) => haversineDistance(points[from], points[a]) - haversineDistance(points[from], points[b]))
+      .slice(0, 3);
+
+    nearest.forEach(to => {
+      if (linked.has(`${to}>${from}`)) return;
+      linked.add(`${from}>${to}`);
+
+      const distance = haversineDistance(points[from], points[to]) * (random() < 0.1 ? 0.6 : 1 + random() * 0.4);
+      connections.push({
+        from,
+        to,
+        distance,
+        time: (distance / (15 + random() * 75)) * 60,
+        type: CONNECTION_TYPES[Math.floor(random() * CONNECTION_TYPES.length)],
+        speedLimit: random() < 0.2 ? 30 : undefined,
+        oneWay: random() < 0.1
+      });
+    });
+  });
+
+  return { points, connections };
+}
+
+// A crossroads at C with arms to the north, east, south and west, plus a
+// corner SW linking the south and west arms. Driving from S to W turns left
+// at C; going around through SW is 20% longer but only turns right. The
+// east arm is a little longer than the others, so no two ways tie.
+//
+//   .   N   .
+//   W — C — E
+//   |   |
+//   SW— S   .
+export function createCrossroads(): Graph {
+  const point = (id: string, row: number, column: number) => ({
+    id,
+    name: id,
+    lat: 40.7 + row * 0.001,
+    lng: -74 + column * 0.0013
+  });
+  const points = Object.fromEntries(
+    [point('C', 0, 0), point('N', 1, 0), point('E', 0, 1), point('S', -1, 0), point('W', 0, -1), point('SW', -1, -1)]
+      .map(p => [p.id, p])
+  );
+  const street = (from: string, to: string, distance: number) => ({ from, to, distance, time: (distance / 30) * 60 });
+
+  return {
+    points,
+    connections: [
+      street('C', 'N', 0.11),
+      street('C', 'E', 0.15),
+      street('C', 'S', 0.11),
+      street('C', 'W', 0.11),
+      street('S', 'SW', 0.132),
+      street('SW', 'W', 0.132)
+    ]
+  };
+}
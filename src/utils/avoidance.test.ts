@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AvoidZone, Closure, excludeAvoided, isClosureActive } from './avoidance';
+import { findShortestPath, Graph } from './routeOptimization';
+import { createCrossroads } from '@/test/graphs';
+
+const at = (hours: number) => new Date(2024, 2, 4, hours).getTime();
+
+// Road works on the west arm of the crossroads from 09:00 to 17:00
+const roadWorks: Closure = { from: 'W', to: 'C', start: at(9), end: at(17) };
+
+// A small square around the middle of the west arm, clear of every other street
+const westArm = (changes: Partial<AvoidZone> = {}): AvoidZone => ({
+  id: 'zone-1',
+  name: 'School',
+  polygon: [
+    { lat: 40.6998, lng: -74.00085 },
+    { lat: 40.7002, lng: -74.00085 },
+    { lat: 40.7002, lng: -74.00045 },
+    { lat: 40.6998, lng: -74.00045 }
+  ],
+  enabled: true,
+  ...changes
+});
+
+const withZone = (graph: Graph, zone: AvoidZone): Graph => ({ ...graph, zones: [zone] });
+
+describe('closures', () => {
+  const crossroads = createCrossroads();
+
+  it('are active from their start until just before their end', () => {
+    expect(isClosureActive(roadWorks, at(8))).toBe(false);
+    expect(isClosureActive(roadWorks, at(9))).toBe(true);
+    expect(isClosureActive(roadWorks, at(17))).toBe(false);
+  });
+
+  it('take the connection out of the graph in either direction while active', () => {
+    const closed = excludeAvoided(crossroads, { closures: [roadWorks] }, at(12));
+    expect(closed.connections).toHaveLength(crossroads.connections.length - 1);
+    expect(closed.connections.some(conn => conn.from === 'C' && conn.to === 'W')).toBe(false);
+
+    expect(excludeAvoided(crossroads, { closures: [roadWorks] }, at(18))).toBe(crossroads);
+  });
+
+  it('send the route around them during the works only', () => {
+    const avoid = { closures: [roadWorks] };
+
+    expect(findShortestPath(crossroads, 'S', 'W', 'shortest', { avoid, departureTime: at(12) })?.path).toEqual(['S', 'SW', 'W']);
+    expect(findShortestPath(crossroads, 'S', 'W', 'shortest', { avoid, departureTime: at(18) })?.path).toEqual(['S', 'C', 'W']);
+  });
+
+  it('leave a point unreachable when they close its only connection', () => {
+    const avoid = { closures: [{ ...roadWorks, from: 'C', to: 'E' }] };
+    expect(findShortestPath(crossroads, 'S', 'E', 'shortest', { avoid, departureTime: at(12) })).toBeNull();
+  });
+});
+
+describe('avoided points', () => {
+  it('are never driven through', () => {
+    const route = findShortestPath(createCrossroads(), 'S', 'W', 'shortest', { avoid: { points: ['C'] } });
+    expect(route?.path).toEqual(['S', 'SW', 'W']);
+  });
+});
+
+describe('avoid zones', () => {
+  const crossroads = createCrossroads();
+
+  it('keep routes off the connections through them', () => {
+    const graph = withZone(crossroads, westArm());
+    expect(findShortestPath(graph, 'S', 'W', 'shortest')?.path).toEqual(['S', 'SW', 'W']);
+  });
+
+  it('are ignored while disabled', () => {
+    const graph = withZone(crossroads, westArm({ enabled: false }));
+    expect(findShortestPath(graph, 'S', 'W', 'shortest')?.path).toEqual(['S', 'C', 'W']);
+  });
+
+  it('with a penalty only send routes around them when the detour is cheaper', () => {
+    // Through C is 0.22 km and around through SW 0.264 km
+    const small = withZone(crossroads, westArm({ penalty: 1.2 }));
+    const large = withZone(crossroads, westArm({ penalty: 2 }));
+
+    expect(findShortestPath(small, 'S', 'W', 'shortest')?.path).toEqual(['S', 'C', 'W']);
+    expect(findShortestPath(large, 'S', 'W', 'shortest')?.path).toEqual(['S', 'SW', 'W']);
+  });
+
+  it('with a penalty still let routes through when there is no other way', () => {
+    const withoutCorner = crossroads.connections.filter(conn => conn.from !== 'SW' && conn.to !== 'SW');
+    const graph = withZone({ ...crossroads, connections: withoutCorner }, westArm({ penalty: 5 }));
+    const route = findShortestPath(graph, 'N', 'W', 'shortest');
+
+    expect(route?.path).toEqual(['N', 'C', 'W']);
+    expect(route?.totalDistance).toBeCloseTo(0.22, 9);
+  });
+});
@@ -0,0 +1,89 @@
+import type { Connection, Graph } from './routeOptimization';
+import { LatLng, segmentTouchesPolygon } from './geo';
+
+// A connection named by its endpoints; matches the road in either direction
+export interface ConnectionRef {
+  from: string;
+  to: string;
+}
+
+// A connection closed for a while, e.g. for road works
+export interface Closure extends ConnectionRef {
+  start: number; // epoch ms
+  end: number; // epoch ms, exclusive
+}
+
+// What a routing request has to stay away from
+export interface AvoidOptions {
+  points?: string[]; // never driven to or through
+  connections?: ConnectionRef[];
+  closures?: Closure[]; // only while they are active
+}
+
+// An area drawn on the map that routes keep out of, such as a school zone.
+// Zones are stored on the graph; `penalty` multiplies the cost of connections
+// in the zone instead of excluding them.
+export interface AvoidZone {
+  id: string;
+  name: string;
+  polygon: LatLng[];
+  enabled: boolean;
+  penalty?: number;
+}
+
+export function sameConnection(a: ConnectionRef, b: ConnectionRef): boolean {
+  return (a.from === b.from && a.to === b.to) || (a.from === b.to && a.to === b.from);
+}
+
+export function isClosureActive(closure: Closure, at: number): boolean {
+  return closure.start <= at && at < closure.end;
+}
+
+// Whether any part of a connection runs through the zone
+function crossesZone(graph: Graph, conn: Connection, zone: AvoidZone): boolean {
+  const from = graph.points[conn.from];
+  const to = graph.points[conn.to];
+  return Boolean(from && to) && segmentTouchesPolygon(from, to, zone.polygon);
+}
+
+// The graph without the connections of avoided points, closed connections
+// and connections through enabled zones that exclude traffic.
+// Points stay in place so their ids keep resolving; they just cannot be reached.
+// Returns the same graph object when nothing is excluded, keeping its caches.
+export function excludeAvoided(graph: Graph, avoid: AvoidOptions | undefined, at = Date.now()): Graph {
+  const zones = (graph.zones ?? []).filter(zone => zone.enabled && zone.penalty === undefined);
+  if (!avoid && zones.length === 0) return graph;
+
+  const points = new Set(avoid?.points);
+  const blocked = [
+    ...(avoid?.connections ?? []),
+    ...(avoid?.closures ?? []).filter(closure => isClosureActive(closure, at))
+  ];
+
+  const connections = graph.connections.filter(conn =>
+    !points.has(conn.from) &&
+    !points.has(conn.to) &&
+    !blocked.some(ref => sameConnection(ref, conn)) &&
+    !zones.some(zone => crossesZone(graph, conn, zone))
+  );
+
+  return connections.length === graph.connections.length ? graph : { ...graph, connections };
+}
+
+// Cost multipliers for connections through enabled zones that penalise
+// rather than exclude; overlapping zones multiply
+export function zonePenalties(graph: Graph): Map<Connection, number> {
+  const penalties = new Map<Connection, number>();
+  const zones = (graph.zones ?? []).filter(zone => zone.enabled && zone.penalty !== undefined);
+  if (zones.length === 0) return penalties;
+
+  graph.connections.forEach(conn => {
+    zones.forEach(zone => {
+      if (crossesZone(graph, conn, zone)) {
+        penalties.set(conn, (penalties.get(conn) ?? 1) * zone.penalty!);
+      }
+    });
+  });
+
+  return penalties;
+}
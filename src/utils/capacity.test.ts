@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildLoadProfile, selectStopsWithinCapacity } from './capacity';
+import { findOptimalRoute, Graph } from './routeOptimization';
+import { createGridGraph, gridId } from '@/test/graphs';
+
+// A street grid where the listed points each take `demand` units
+function withDemands(graph: Graph, demands: Record<string, number>): Graph {
+  const points = { ...graph.points };
+  Object.entries(demands).forEach(([id, demand]) => {
+    points[id] = { ...points[id], demand };
+  });
+  return { ...graph, points };
+}
+
+describe('buildLoadProfile', () => {
+  const graph = withDemands(createGridGraph(3), { [gridId(0, 1)]: 2, [gridId(0, 2)]: 3 });
+
+  it('leaves with every plain delivery on board and drops each on arrival', () => {
+    const stops = [gridId(0, 0), gridId(0, 1), gridId(0, 2)];
+    const loads = buildLoadProfile(graph, stops, new Set(stops.slice(1)));
+
+    expect(loads.map(step => step.load)).toEqual([5, 3, 0]);
+  });
+
+  it('carries a pair from its pickup to its delivery', () => {
+    const stops = [gridId(0, 0), gridId(1, 1), gridId(0, 1), gridId(2, 2)];
+    const pairs = [{ id: 'pair-1', pickupId: gridId(1, 1), deliveryId: gridId(2, 2), quantity: 4 }];
+    const loads = buildLoadProfile(graph, stops, new Set([gridId(0, 1)]), pairs);
+
+    expect(loads.map(step => step.load)).toEqual([2, 6, 4, 0]);
+  });
+});
+
+describe('selectStopsWithinCapacity', () => {
+  const [a, b, c] = [gridId(0, 1), gridId(0, 2), gridId(1, 1)];
+  const graph = withDemands(createGridGraph(3), { [a]: 2, [b]: 2, [c]: 2 });
+
+  it('fills the vehicle with the nearest stops first', () => {
+    const distance: Record<string, number> = { [a]: 3, [b]: 1, [c]: 2 };
+    const { selected, rejected } = selectStopsWithinCapacity(graph, [a, b, c], 5, id => distance[id]);
+
+    expect(selected).toEqual([b, c]);
+    expect(rejected).toEqual([a]);
+  });
+});
+
+describe('findOptimalRoute with a capacity', () => {
+  const start = gridId(0, 0);
+  const near = [gridId(0, 1), gridId(1, 0)];
+  const far = gridId(7, 7);
+  const graph = withDemands(createGridGraph(8), { [near[0]]: 2, [near[1]]: 2, [far]: 2 });
+
+  it('leaves out the farthest stop that does not fit', () => {
+    const route = findOptimalRoute(graph, start, [far, ...near], { capacity: 5 })!;
+
+    expect(route.unserved).toEqual([far]);
+    expect(new Set(route.stops)).toEqual(new Set([start, ...near]));
+    route.loads!.forEach(step => expect(step.load).toBeLessThanOrEqual(5));
+  });
+
+  it('serves every stop when they fit', () => {
+    const route = findOptimalRoute(graph, start, [far, ...near], { capacity: 6 })!;
+
+    expect(route.unserved).toBeUndefined();
+    expect(route.loads![0].load).toBe(6);
+    expect(route.loads!.at(-1)!.load).toBe(0);
+  });
+
+  it('counts a pair against the capacity while it is on board', () => {
+    const pairs = [{ id: 'pair-1', pickupId: gridId(3, 3), deliveryId: gridId(5, 5), quantity: 3 }];
+    const route = findOptimalRoute(graph, start, near, { capacity: 5, pairs })!;
+
+    // Three units reserved for the pair leave room for only one of the others
+    expect(route.unserved).toHaveLength(1);
+    expect(near).toContain(route.unserved![0]);
+    route.loads!.forEach(step => expect(step.load).toBeLessThanOrEqual(5));
+  });
+});
@@ -0,0 +1,74 @@
+import type { Graph, PickupDeliveryPair } from './routeOptimization';
+
+// Load on board when leaving a stop
+export interface LoadStep {
+  pointId: string;
+  load: number;
+}
+
+export function pointDemand(graph: Graph, pointId: string): number {
+  return graph.points[pointId]?.demand ?? 0;
+}
+
+// The vehicle leaves the start carrying the demand of every plain
+// destination and drops each one's share on arrival. Pickup/delivery pairs
+// add their quantity at the pickup and remove it at the delivery.
+export function buildLoadProfile(
+  graph: Graph,
+  stopIds: string[],
+  plainStops: Set<string>,
+  pairs: PickupDeliveryPair[] = []
+): LoadStep[] {
+  let load = stopIds
+    .filter(id => plainStops.has(id))
+    .reduce((sum, id) => sum + pointDemand(graph, id), 0);
+
+  // A round trip passes its depot twice: collect each pair once and drop it
+  // once, after it has been collected
+  const collected = new Set<string>();
+  const delivered = new Set<string>();
+
+  return stopIds.map(pointId => {
+    if (plainStops.has(pointId)) load -= pointDemand(graph, pointId);
+    pairs.forEach(pair => {
+      if (pair.deliveryId === pointId && collected.has(pair.id) && !delivered.has(pair.id)) {
+        load -= pair.quantity ?? 1;
+        delivered.add(pair.id);
+      }
+      if (pair.pickupId === pointId && !collected.has(pair.id)) {
+        load += pair.quantity ?? 1;
+        collected.add(pair.id);
+      }
+    });
+    return { pointId, load };
+  });
+}
+
+// Fill the vehicle nearest-first: walk the candidates in order of cost from
+// the start and keep every stop whose demand still fits.
+export function selectStopsWithinCapacity(
+  graph: Graph,
+  candidates: string[],
+  capacity: number,
+  costFromStart: (pointId: string) => number
+): { selected: string[]; rejected: string[] } {
+  const selected: string[] = [];
+  const rejected: string[] = [];
+  let load = 0;
+
+  [...candidates]
+    .sort((a, b) => costFromStart(a) - costFromStart(b))
+    .forEach(pointId => {
+      const demand = pointDemand(graph, pointId);
+      if (load + demand <= capacity) {
+        selected.push(pointId);
+        load += demand;
+      } else {
+        rejected.push(pointId);
+      }
+    });
+
+  // Keep the caller's order for the stops we serve
+  const selectedSet = new Set(selected);
+  return { selected: candidates.filter(id => selectedSet.has(id)), rejected };
+}
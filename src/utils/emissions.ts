@@ -0,0 +1,41 @@
+import type { Connection, CostFunction, Route } from './routeOptimization';
+import { RoadClass } from './roadAttributes';
+import { TRAVEL_PROFILES, TravelMode } from './travelModes';
+
+// Extra fuel burnt per km on roads with frequent stopping and starting
+const STOP_AND_GO_FACTORS: Record<RoadClass, number> = {
+  primary: 1,
+  secondary: 1.15,
+  residential: 1.3,
+  service: 1.4
+};
+
+// Minutes weigh this much against a stop-and-go adjusted km in the eco
+// objective: it accepts about four extra minutes to save a kilometre's fuel
+export const ECO_TIME_WEIGHT = 0.25;
+
+export interface RouteEmissions {
+  legs: number[]; // kg CO2 per connection, in path order
+  total: number; // kg CO2
+}
+
+export function stopAndGoFactor(connection: Connection): number {
+  return connection.roadClass ? STOP_AND_GO_FACTORS[connection.roadClass] : 1;
+}
+
+// Kilograms of CO2 emitted travelling a connection; routes planned without a
+// travel mode are driven
+export function connectionEmissions(connection: Connection, mode?: TravelMode): number {
+  const gramsPerKm = TRAVEL_PROFILES[mode ?? 'driving'].co2PerKm ?? 0;
+  return (connection.distance * gramsPerKm * stopAndGoFactor(connection)) / 1000;
+}
+
+export function estimateEmissions(route: Route, connections: Connection[]): RouteEmissions {
+  const legs = connections.map(conn => connectionEmissions(conn, route.profile));
+  return { legs, total: legs.reduce((sum, kg) => sum + kg, 0) };
+}
+
+// Fuel burnt is roughly proportional to stop-and-go adjusted distance whatever
+// the vehicle, so the eco objective needs no travel profile
+export const ecoCost: CostFunction = (connection, time = connection.time) =>
+  connection.distance * stopAndGoFactor(connection) + ECO_TIME_WEIGHT * time;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { findFleetRoutes, Vehicle } from './fleetRouting';
+import { Graph } from './routeOptimization';
+import { createGridGraph, gridId } from '@/test/graphs';
+
+const vehicle = (id: string, startId: string, changes: Partial<Vehicle> = {}): Vehicle => ({
+  id,
+  name: id,
+  startId,
+  ...changes
+});
+
+// Stops of every route other than the depots, by vehicle id
+function stopsByVehicle(plan: ReturnType<typeof findFleetRoutes>): Record<string, string[]> {
+  return Object.fromEntries(plan.routes.map(({ vehicle, route }) => [vehicle.id, route.stops!.slice(1)]));
+}
+
+describe('findFleetRoutes', () => {
+  const grid = createGridGraph(10);
+  const nearTopLeft = [gridId(0, 1), gridId(1, 0), gridId(1, 2), gridId(2, 1)];
+  const nearBottomRight = [gridId(9, 8), gridId(8, 9), gridId(8, 7), gridId(7, 8)];
+
+  it('gives each depot the stops around it', () => {
+    const vehicles = [vehicle('top', gridId(0, 0)), vehicle('bottom', gridId(9, 9))];
+    const plan = findFleetRoutes(grid, vehicles, [...nearBottomRight, ...nearTopLeft]);
+    const stops = stopsByVehicle(plan);
+
+    expect(plan.unassigned).toEqual([]);
+    expect(new Set(stops.top)).toEqual(new Set(nearTopLeft));
+    expect(new Set(stops.bottom)).toEqual(new Set(nearBottomRight));
+  });
+
+  it('spreads stops over vehicles leaving the same depot', () => {
+    // Both clusters are on the way out of the middle, so piling everything
+    // onto one vehicle would drive it across the whole grid
+    const depot = gridId(5, 5);
+    const vehicles = [vehicle('first', depot), vehicle('second', depot)];
+    const plan = findFleetRoutes(grid, vehicles, [...nearTopLeft, ...nearBottomRight]);
+    const stops = Object.values(stopsByVehicle(plan)).map(list => new Set(list));
+
+    expect(stops).toHaveLength(2);
+    expect(stops).toContainEqual(new Set(nearTopLeft));
+    expect(stops).toContainEqual(new Set(nearBottomRight));
+  });
+
+  it('assigns every stop exactly once', () => {
+    const vehicles = [vehicle('a', gridId(0, 0)), vehicle('b', gridId(9, 0), { endId: gridId(9, 0) }), vehicle('c', gridId(4, 9))];
+    const destinations = Array.from({ length: 12 }, (_, i) => gridId((i * 7) % 10, (i * 3) % 10)).filter(
+      id => !vehicles.some(v => v.startId === id)
+    );
+    const plan = findFleetRoutes(grid, vehicles, destinations);
+    const served = Object.values(stopsByVehicle(plan))
+      .flat()
+      .filter(id => !vehicles.some(v => v.endId === id));
+
+    expect([...served, ...plan.unassigned].sort()).toEqual([...new Set(destinations)].sort());
+  });
+
+  it('never loads a vehicle beyond its capacity', () => {
+    const graph: Graph = {
+      ...grid,
+      points: Object.fromEntries(
+        Object.entries(grid.points).map(([id, point]) => [id, { ...point, demand: 2 }])
+      )
+    };
+    const vehicles = [vehicle('small', gridId(0, 0), { capacity: 4 }), vehicle('large', gridId(9, 9), { capacity: 6 })];
+    const plan = findFleetRoutes(graph, vehicles, [...nearTopLeft, ...nearBottomRight]);
+
+    plan.routes.forEach(({ vehicle, route }) =>
+      route.loads!.forEach(step => expect(step.load).toBeLessThanOrEqual(vehicle.capacity!))
+    );
+    expect(plan.unassigned).toHaveLength(3);
+  });
+
+  it('keeps a pickup and its delivery on one vehicle, in that order', () => {
+    const vehicles = [vehicle('top', gridId(0, 0)), vehicle('bottom', gridId(9, 9))];
+    const pair = { id: 'pair-1', pickupId: gridId(1, 1), deliveryId: gridId(8, 8) };
+    const plan = findFleetRoutes(grid, vehicles, nearTopLeft, { pairs: [pair] });
+    const carrying = plan.routes.filter(({ route }) => route.stops!.includes(pair.pickupId));
+
+    expect(carrying).toHaveLength(1);
+    const stops = carrying[0].route.stops!;
+    expect(stops.indexOf(pair.pickupId)).toBeLessThan(stops.indexOf(pair.deliveryId));
+    expect(plan.routes.every(({ route }) => route.stops!.includes(pair.deliveryId) === route.stops!.includes(pair.pickupId))).toBe(true);
+  });
+});
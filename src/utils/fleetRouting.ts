@@ -0,0 +1,178 @@
+import { pointDemand } from './capacity';
+import {
+  buildCostMatrix,
+  findOptimalRoute,
+  Graph,
+  PickupDeliveryPair,
+  Route,
+  RouteMode,
+  RouteOptions,
+  usableGraph
+} from './routeOptimization';
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  startId: string; // depot the vehicle leaves from
+  endId?: string; // where it must finish; the start depot for a round trip
+  color?: string; // route colour on the map and in the details tabs
+  capacity?: number; // same units as Point.demand; unlimited when omitted
+}
+
+export interface VehicleRoute {
+  vehicle: Vehicle;
+  route: Route;
+}
+
+export interface FleetPlan {
+  routes: VehicleRoute[]; // only vehicles that were given stops
+  unassigned: string[]; // destinations no vehicle can reach or carry
+}
+
+// Per-vehicle options; mode, end point and capacity come from each vehicle instead
+export type FleetOptions = Omit<RouteOptions, 'mode' | 'endId' | 'capacity'>;
+
+// Line colours for vehicle routes on the map and in the details tabs
+export const VEHICLE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+export function vehicleColor(index: number): string {
+  return VEHICLE_COLORS[index % VEHICLE_COLORS.length];
+}
+
+function vehicleMode(vehicle: Vehicle): RouteMode {
+  if (!vehicle.endId) return 'open';
+  return vehicle.endId === vehicle.startId ? 'round-trip' : 'fixed-end';
+}
+
+// A unit of work handed to one vehicle: a single stop, or a pickup and its delivery
+interface Job {
+  stops: number[]; // matrix indices, pickup before delivery
+  load: number;
+  pair?: PickupDeliveryPair;
+}
+
+// Every way to insert a job into a sequence, keeping a pair's pickup first
+function insertionsOf(sequence: number[], job: Job): number[][] {
+  const candidates: number[][] = [];
+
+  for (let first = 0; first <= sequence.length; first++) {
+    if (job.stops.length === 1) {
+      candidates.push([...sequence.slice(0, first), job.stops[0], ...sequence.slice(first)]);
+      continue;
+    }
+
+    for (let second = first; second <= sequence.length; second++) {
+      candidates.push([
+        ...sequence.slice(0, first),
+        job.stops[0],
+        ...sequence.slice(first, second),
+        job.stops[1],
+        ...sequence.slice(second)
+      ]);
+    }
+  }
+
+  return candidates;
+}
+
+// Split destinations (and pickup/delivery pairs, which always stay on one
+// vehicle) among vehicles within each vehicle's capacity, then let
+// findOptimalRoute order each vehicle's stops. Unlike cheapest insertion,
+// which picks whatever adds least to a route, each step makes the insertion
+// after which its vehicle's whole route costs least. A vehicle with a long
+// route already is passed over, so stops spread across the fleet instead of
+// piling onto whichever vehicle happens to drive past them.
+export function findFleetRoutes(
+  graph: Graph,
+  vehicles: Vehicle[],
+  destinations: string[],
+  options: FleetOptions = {}
+): FleetPlan {
+  graph = usableGraph(graph, options);
+  const pairs = options.pairs ?? [];
+  const pointIds = Array.from(new Set([
+    ...vehicles.flatMap(v => (v.endId ? [v.startId, v.endId] : [v.startId])),
+    ...destinations,
+    ...pairs.flatMap(pair => [pair.pickupId, pair.deliveryId])
+  ]));
+  const indexOf = new Map(pointIds.map((id, index) => [id, index]));
+  const cost = buildCostMatrix(graph, pointIds, options.objective, options.preferences);
+
+  // Depots are not stops to deliver to
+  const depots = new Set(vehicles.flatMap(v => [v.startId, v.endId]));
+  const pending = new Set<Job>([
+    ...destinations
+      .filter(d => !depots.has(d))
+      .map(d => ({ stops: [indexOf.get(d)!], load: pointDemand(graph, d) })),
+    ...pairs.map(pair => ({
+      stops: [indexOf.get(pair.pickupId)!, indexOf.get(pair.deliveryId)!],
+      load: pair.quantity ?? 1,
+      pair
+    }))
+  ]);
+
+  const sequences: number[][] = vehicles.map(() => []);
+  const jobs: Job[][] = vehicles.map(() => []);
+  const loads = vehicles.map(() => 0);
+  const sequenceCost = (vehicle: Vehicle, sequence: number[]) => {
+    const stops = [indexOf.get(vehicle.startId)!, ...sequence];
+    if (vehicle.endId) stops.push(indexOf.get(vehicle.endId)!);
+
+    let total = 0;
+    for (let i = 1; i < stops.length; i++) total += cost[stops[i - 1]][stops[i]];
+    return total;
+  };
+
+  while (pending.size > 0) {
+    let best: { job: Job; vehicle: number; sequence: number[]; cost: number } | null = null;
+
+    pending.forEach(job => {
+      vehicles.forEach((vehicle, v) => {
+        // Never load a vehicle beyond its capacity
+        if (loads[v] + job.load > (vehicle.capacity ?? Infinity)) return;
+
+        insertionsOf(sequences[v], job).forEach(candidate => {
+          const candidateCost = sequenceCost(vehicle, candidate);
+
+          if (candidateCost < (best?.cost ?? Infinity)) {
+            best = { job, vehicle: v, sequence: candidate, cost: candidateCost };
+          }
+        });
+      });
+    });
+
+    // Whatever is left cannot be reached or carried by any vehicle
+    if (!best) break;
+
+    sequences[best.vehicle] = best.sequence;
+    jobs[best.vehicle].push(best.job);
+    loads[best.vehicle] += best.job.load;
+    pending.delete(best.job);
+  }
+
+  const unassigned = Array.from(pending).map(job => pointIds[job.stops[0]]);
+  const routes: VehicleRoute[] = [];
+
+  vehicles.forEach((vehicle, v) => {
+    if (jobs[v].length === 0) return;
+
+    const assigned = jobs[v].filter(job => !job.pair).map(job => pointIds[job.stops[0]]);
+    const assignedPairs = jobs[v].filter(job => job.pair).map(job => job.pair!);
+    const route = findOptimalRoute(graph, vehicle.startId, assigned, {
+      ...options,
+      mode: vehicleMode(vehicle),
+      endId: vehicle.endId,
+      capacity: vehicle.capacity,
+      pairs: assignedPairs
+    });
+
+    if (route) {
+      routes.push({ vehicle, route });
+      unassigned.push(...(route.unserved ?? []));
+    } else {
+      unassigned.push(...assigned, ...assignedPairs.map(pair => pair.pickupId));
+    }
+  });
+
+  return { routes, unassigned };
+}
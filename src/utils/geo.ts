@@ -0,0 +1,69 @@
+// Great-circle helpers for points given in degrees
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const deg2rad = (deg: number) => deg * (Math.PI / 180);
+
+// Distance between two points in kilometers using the Haversine formula
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const dLat = deg2rad(to.lat - from.lat);
+  const dLon = deg2rad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(from.lat)) * Math.cos(deg2rad(to.lat)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// Compass bearing in degrees (0 = north, 90 = east) when setting off from one point to another
+export function initialBearing(from: LatLng, to: LatLng): number {
+  const dLon = deg2rad(to.lng - from.lng);
+  const y = Math.sin(dLon) * Math.cos(deg2rad(to.lat));
+  const x =
+    Math.cos(deg2rad(from.lat)) * Math.sin(deg2rad(to.lat)) -
+    Math.sin(deg2rad(from.lat)) * Math.cos(deg2rad(to.lat)) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Ray casting in the plane of longitude/latitude; fine at city scale
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+// Which side of the line a-b the point c lies on
+function orientation(a: LatLng, b: LatLng, c: LatLng): number {
+  return Math.sign((b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng));
+}
+
+// Whether the segments p1-p2 and q1-q2 properly cross each other
+function segmentsCross(p1: LatLng, p2: LatLng, q1: LatLng, q2: LatLng): boolean {
+  return (
+    orientation(p1, p2, q1) * orientation(p1, p2, q2) < 0 &&
+    orientation(q1, q2, p1) * orientation(q1, q2, p2) < 0
+  );
+}
+
+// Whether any part of the segment from-to lies inside the polygon
+export function segmentTouchesPolygon(from: LatLng, to: LatLng, polygon: LatLng[]): boolean {
+  if (polygon.length < 3) return false;
+  if (pointInPolygon(from, polygon) || pointInPolygon(to, polygon)) return true;
+
+  return polygon.some((corner, i) => segmentsCross(from, to, corner, polygon[(i + 1) % polygon.length]));
+}
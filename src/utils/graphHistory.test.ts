@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { Graph } from './routeOptimization';
+import { applyPatch, diffGraphs, isEmptyPatch } from './graphHistory';
+import { createRushHourProfile } from './travelTime';
+
+describe('graph patches', () => {
+  const rushHour = createRushHourProfile();
+  const before: Graph = {
+    points: {
+      A: { id: 'A', name: 'A', lat: 40.7, lng: -74 },
+      B: { id: 'B', name: 'B', lat: 40.71, lng: -74 }
+    },
+    connections: [{ from: 'A', to: 'B', distance: 1.2, time: 3 }]
+  };
+
+  it('are empty when nothing changed', () => {
+    expect(isEmptyPatch(diffGraphs(before, before))).toBe(true);
+    expect(isEmptyPatch(diffGraphs(before, { ...before }))).toBe(true);
+  });
+
+  it('undo and redo edits to points and connections', () => {
+    const after: Graph = {
+      ...before,
+      points: { ...before.points, C: { id: 'C', name: 'C', lat: 40.72, lng: -74 } },
+      connections: [{ ...before.connections[0], time: 4 }, { from: 'B', to: 'C', distance: 1.1, time: 3 }]
+    };
+    const patch = diffGraphs(before, after);
+
+    expect(applyPatch(after, patch, 'undo')).toEqual(before);
+    expect(applyPatch(before, patch, 'redo')).toEqual(after);
+  });
+
+  it('undo and redo edits to speed profiles and turn rules', () => {
+    const after: Graph = {
+      ...before,
+      speedProfiles: { [rushHour.id]: rushHour },
+      turns: { leftTurnPenalty: 0.5, banned: [{ from: 'A', via: 'B', to: 'A' }] }
+    };
+    const patch = diffGraphs(before, after);
+
+    expect(isEmptyPatch(patch)).toBe(false);
+    expect(applyPatch(after, patch, 'undo')).toEqual(before);
+    expect(applyPatch(before, patch, 'redo')).toEqual(after);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Connection, Graph, Point } from './routeOptimization';
+import type { AvoidZone } from './avoidance';
+import type { SpeedProfile } from './travelTime';
+import type { TurnRules } from './turns';
+
+// [before, after], null where the graph had none
+type Versions<T> = [T | null, T | null];
+
+// One undoable edit, stored as what it changed rather than as whole graphs so
+// a long history stays small enough to save with the graph. Zones, speed
+// profiles and turn rules are stored whole when they change.
+export interface GraphPatch {
+  points: Record<string, Versions<Point>>; // id -> [before, after]
+  removed: Connection[];
+  added: Connection[];
+  zones?: Versions<AvoidZone[]>;
+  speedProfiles?: Versions<Record<string, SpeedProfile>>;
+  turns?: Versions<TurnRules>;
+}
+
+export interface HistoryEntry {
+  label: string;
+  patch: GraphPatch;
+}
+
+// Connections are told apart by their endpoints, which the editor keeps unique
+const connectionKey = (conn: Connection) => `${conn.from}>${conn.to}`;
+
+// What changed between two versions of a graph. Unchanged points and
+// connections keep their object identity across edits, so they are skipped.
+export function diffGraphs(before: Graph, after: Graph): GraphPatch {
+  const points: GraphPatch['points'] = {};
+  new Set([...Object.keys(before.points), ...Object.keys(after.points)]).forEach(id => {
+    if (before.points[id] !== after.points[id]) {
+      points[id] = [before.points[id] ?? null, after.points[id] ?? null];
+    }
+  });
+
+  const kept = new Set(after.connections);
+  const previous = new Set(before.connections);
+  const patch: GraphPatch = {
+    points,
+    removed: before.connections.filter(conn => !kept.has(conn)),
+    added: after.connections.filter(conn => !previous.has(conn))
+  };
+
+  if (before.zones !== after.zones) patch.zones = [before.zones ?? null, after.zones ?? null];
+  if (before.speedProfiles !== after.speedProfiles) {
+    patch.speedProfiles = [before.speedProfiles ?? null, after.speedProfiles ?? null];
+  }
+  if (before.turns !== after.turns) patch.turns = [before.turns ?? null, after.turns ?? null];
+  return patch;
+}
+
+export function isEmptyPatch(patch: GraphPatch): boolean {
+  return (
+    Object.keys(patch.points).length === 0 &&
+    patch.removed.length === 0 &&
+    patch.added.length === 0 &&
+    !patch.zones &&
+    !patch.speedProfiles &&
+    !patch.turns
+  );
+}
+
+// Replay a patch forwards (redo) or backwards (undo)
+export function applyPatch(graph: Graph, patch: GraphPatch, direction: 'undo' | 'redo'): Graph {
+  const version = direction === 'redo' ? 1 : 0;
+  const drop = new Set((direction === 'redo' ? patch.removed : patch.added).map(connectionKey));
+  const restore = direction === 'redo' ? patch.added : patch.removed;
+
+  const points = { ...graph.points };
+  Object.entries(patch.points).forEach(([id, versions]) => {
+    if (versions[version]) points[id] = versions[version];
+    else delete points[id];
+  });
+
+  const next: Graph = {
+    ...graph,
+    points,
+    connections: [...graph.connections.filter(conn => !drop.has(connectionKey(conn))), ...restore]
+  };
+
+  if (patch.zones) next.zones = patch.zones[version] ?? undefined;
+  if (patch.speedProfiles) next.speedProfiles = patch.speedProfiles[version] ?? undefined;
+  if (patch.turns) next.turns = patch.turns[version] ?? undefined;
+  return next;
+}
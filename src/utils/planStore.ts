@@ -0,0 +1,101 @@
+import type { Graph, Route } from './routeOptimization';
+import { createRushHourProfile } from './travelTime';
+import { nanoid } from 'nanoid';
+
+// A named piece of work: the graph, the stops picked in the form and the
+// route last calculated for them
+export interface Plan {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  graph: Graph;
+  destinations: string[];
+  route: Route | null;
+}
+
+const DB_NAME = 'route-optimizer';
+const DB_VERSION = 1;
+const PLANS = 'plans';
+
+// New plans offer a weekday rush hour profile for connections to pick; none
+// uses it until one is set in the connection panel
+export function createEmptyGraph(): Graph {
+  const rushHour = createRushHourProfile();
+  return { points: {}, connections: [], speedProfiles: { [rushHour.id]: rushHour } };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PLANS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Run one request against the plans store and wait for its result
+async function withPlans<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(PLANS, mode).objectStore(PLANS));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Most recently changed first
+export async function listPlans(): Promise<Plan[]> {
+  const plans = await withPlans<Plan[]>('readonly', store => store.getAll());
+  return plans.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getPlan(id: string): Promise<Plan | undefined> {
+  return withPlans<Plan | undefined>('readonly', store => store.get(id));
+}
+
+export async function savePlan(plan: Plan): Promise<Plan> {
+  const saved = { ...plan, updatedAt: Date.now() };
+  await withPlans('readwrite', store => store.put(saved));
+  return saved;
+}
+
+export async function createPlan(
+  name: string,
+  contents: Partial<Pick<Plan, 'graph' | 'destinations' | 'route'>> = {}
+): Promise<Plan> {
+  const now = Date.now();
+  return savePlan({
+    id: nanoid(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    graph: contents.graph ?? createEmptyGraph(),
+    destinations: contents.destinations ?? [],
+    route: contents.route ?? null
+  });
+}
+
+export async function duplicatePlan(id: string): Promise<Plan> {
+  const plan = await getPlan(id);
+  if (!plan) throw new Error(`Plan ${id} not found`);
+  return createPlan(`${plan.name} (copy)`, plan);
+}
+
+export async function renamePlan(id: string, name: string): Promise<Plan> {
+  const plan = await getPlan(id);
+  if (!plan) throw new Error(`Plan ${id} not found`);
+  return savePlan({ ...plan, name });
+}
+
+export async function deletePlan(id: string): Promise<void> {
+  await withPlans('readwrite', store => store.delete(id));
+}
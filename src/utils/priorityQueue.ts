@@ -0,0 +1,82 @@
+// Binary min-heap keyed by a numeric priority
+export interface HeapEntry<T> {
+  value: T;
+  priority: number;
+}
+
+export class MinHeap<T> {
+  private heap: HeapEntry<T>[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  push(value: T, priority: number): void {
+    this.heap.push({ value, priority });
+    this.bubbleUp(this.heap.length - 1);
+  }
+
+  // Remove and return the entry with the lowest priority
+  pop(): HeapEntry<T> | undefined {
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.sinkDown(0);
+    }
+
+    return top;
+  }
+
+  peek(): HeapEntry<T> | undefined {
+    return this.heap[0];
+  }
+
+  private bubbleUp(index: number): void {
+    const entry = this.heap[index];
+
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.heap[parentIndex];
+      if (entry.priority >= parent.priority) break;
+
+      this.heap[index] = parent;
+      index = parentIndex;
+    }
+
+    this.heap[index] = entry;
+  }
+
+  private sinkDown(index: number): void {
+    const length = this.heap.length;
+    const entry = this.heap[index];
+
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      let smallestPriority = entry.priority;
+
+      if (left < length && this.heap[left].priority < smallestPriority) {
+        smallest = left;
+        smallestPriority = this.heap[left].priority;
+      }
+      if (right < length && this.heap[right].priority < smallestPriority) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this.heap[index] = this.heap[smallest];
+      index = smallest;
+    }
+
+    this.heap[index] = entry;
+  }
+}
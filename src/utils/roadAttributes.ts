@@ -0,0 +1,53 @@
+import type { Connection, Graph } from './routeOptimization';
+
+// Importance of a road in the network, from arterial roads down to driveways
+export type RoadClass = 'primary' | 'secondary' | 'residential' | 'service';
+
+export type Surface = 'paved' | 'gravel' | 'unpaved';
+
+// How a routing request feels about connection attributes
+export interface RoadPreferences {
+  avoidTolls?: boolean;
+  preferMainRoads?: boolean;
+  avoidUnpaved?: boolean;
+  allowRestricted?: boolean; // use private and permit-only connections
+}
+
+// Cost multipliers for connections a request would rather not use. They only
+// ever raise costs, so a disliked connection is still taken when it is the
+// only way through and the search heuristics stay admissible.
+const TOLL_FACTOR = 5;
+const UNPAVED_FACTOR = 3;
+const MINOR_ROAD_FACTORS: Record<RoadClass, number> = {
+  primary: 1,
+  secondary: 1.2,
+  residential: 1.5,
+  service: 2
+};
+
+export function hasPreferences(preferences: RoadPreferences | undefined): boolean {
+  return Boolean(preferences?.avoidTolls || preferences?.preferMainRoads || preferences?.avoidUnpaved);
+}
+
+export function preferenceFactor(connection: Connection, preferences: RoadPreferences): number {
+  let factor = 1;
+  if (preferences.avoidTolls && connection.toll) factor *= TOLL_FACTOR;
+  if (preferences.preferMainRoads && connection.roadClass) factor *= MINOR_ROAD_FACTORS[connection.roadClass];
+  if (preferences.avoidUnpaved && connection.surface && connection.surface !== 'paved') factor *= UNPAVED_FACTOR;
+  return factor;
+}
+
+const publicGraphCache = new WeakMap<Graph, Graph>();
+
+// The graph without restricted connections, unless the request may use them.
+// Returns the same graph object when it has none.
+export function excludeRestricted(graph: Graph, preferences: RoadPreferences | undefined): Graph {
+  if (preferences?.allowRestricted) return graph;
+
+  if (!publicGraphCache.has(graph)) {
+    const connections = graph.connections.filter(conn => !conn.restricted);
+    publicGraphCache.set(graph, connections.length === graph.connections.length ? graph : { ...graph, connections });
+  }
+
+  return publicGraphCache.get(graph)!;
+}
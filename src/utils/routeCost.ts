@@ -0,0 +1,48 @@
+import type { Connection, CostFunction, Route } from './routeOptimization';
+import { TRAVEL_PROFILES, TravelMode, TravelProfile } from './travelModes';
+
+// Prices used to turn a route into money
+export interface CostModel {
+  currency: string; // ISO 4217 code, e.g. 'USD'
+  fuelPrice: number; // per litre
+  hourlyWage: number; // driver pay per hour on the road
+}
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  currency: 'USD',
+  fuelPrice: 1.2,
+  hourlyWage: 25
+};
+
+export interface CostBreakdown {
+  currency: string;
+  fuel: number;
+  tolls: number;
+  wage: number;
+  total: number;
+}
+
+// Routes planned without a travel mode use the stored driving times
+const profileOf = (mode: TravelMode | undefined): TravelProfile => TRAVEL_PROFILES[mode ?? 'driving'];
+
+// Money spent on a connection: fuel for its length, its toll, and the
+// driver's wage for `time` minutes. Use as a route objective to minimise cost.
+export function createMoneyCost(model: CostModel, mode?: TravelMode): CostFunction {
+  const fuelPerKm = (profileOf(mode).fuelPerKm ?? 0) * model.fuelPrice;
+  return (connection, time = connection.time) =>
+    connection.distance * fuelPerKm + (connection.tollCost ?? 0) + (time / 60) * model.hourlyWage;
+}
+
+// What driving a route costs, given the connections it uses in order.
+// Fuel and wage follow the route's totals, so speed profiles count too.
+export function estimateRouteCost(
+  route: Route,
+  connections: Connection[],
+  model: CostModel = DEFAULT_COST_MODEL
+): CostBreakdown {
+  const fuel = route.totalDistance * (profileOf(route.profile).fuelPerKm ?? 0) * model.fuelPrice;
+  const tolls = connections.reduce((sum, conn) => sum + (conn.tollCost ?? 0), 0);
+  const wage = (route.totalTime / 60) * model.hourlyWage;
+
+  return { currency: model.currency, fuel, tolls, wage, total: fuel + tolls + wage };
+}
@@ -0,0 +1,322 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance } from './geo';
+import {
+  findAlternativeRoutes,
+  findOptimalRoute,
+  findShortestPath,
+  Graph,
+  Route,
+  RouteObjective,
+  sampleGraph
+} from './routeOptimization';
+import { TRAVEL_PROFILES, TravelMode } from './travelModes';
+import { BUCKETS_PER_DAY, createRushHourProfile, SpeedProfile } from './travelTime';
+import { createGridGraph, createRandom, createRandomGraph, gridId } from '@/test/graphs';
+
+const OBJECTIVES: RouteObjective[] = ['shortest', 'fastest', 'balanced'];
+
+// What each objective minimises, read back from the route
+function objectiveCost(route: Route, objective: RouteObjective): number {
+  switch (objective) {
+    case 'fastest':
+      return route.totalTime;
+    case 'balanced':
+      return route.totalDistance + route.totalTime;
+    default:
+      return route.totalDistance;
+  }
+}
+
+// Random start and end pairs, the same on every run
+function pickPairs(graph: Graph, count: number, seed: number): [string, string][] {
+  const ids = Object.keys(graph.points);
+  const random = createRandom(seed);
+  const pick = () => ids[Math.floor(random() * ids.length)];
+  return Array.from({ length: count }, () => [pick(), pick()]);
+}
+
+function expectSameCosts(
+  graph: Graph,
+  pairs: [string, string][],
+  objective: RouteObjective,
+  options: Parameters<typeof findShortestPath>[4] = {}
+) {
+  pairs.forEach(([startId, endId]) => {
+    const dijkstra = findShortestPath(graph, startId, endId, objective, { ...options, algorithm: 'dijkstra' });
+    const astar = findShortestPath(graph, startId, endId, objective, options);
+
+    expect(astar === null, `${startId} to ${endId} reachable`).toBe(dijkstra === null);
+    if (dijkstra && astar) {
+      expect(objectiveCost(astar, objective), `${startId} to ${endId}`).toBeCloseTo(objectiveCost(dijkstra, objective), 9);
+    }
+  });
+}
+
+// Twice as fast as free flow between 22:00 and 06:00 every day, so the
+// heuristic has to allow for connections quicker than their listed time
+function createNightProfile(): SpeedProfile {
+  const isNight = (bucket: number) => bucket < BUCKETS_PER_DAY / 4 || bucket >= (BUCKETS_PER_DAY * 22) / 24;
+  return {
+    id: 'night',
+    name: 'Empty roads at night',
+    factors: Array.from({ length: 7 }, () =>
+      Array.from({ length: BUCKETS_PER_DAY }, (_, bucket) => (isNight(bucket) ? 0.5 : 1))
+    )
+  };
+}
+
+function withSpeedProfiles(graph: Graph): Graph {
+  const rushHour = createRushHourProfile();
+  const night = createNightProfile();
+  return {
+    ...graph,
+    speedProfiles: { [rushHour.id]: rushHour, [night.id]: night },
+    connections: graph.connections.map((conn, index) => ({
+      ...conn,
+      speedProfile: index % 3 === 0 ? rushHour.id : index % 3 === 1 ? night.id : undefined
+    }))
+  };
+}
+
+describe('A* finds paths as cheap as Dijkstra', () => {
+  const grid = createGridGraph(30);
+  const gridPairs = [
+    [gridId(0, 0), gridId(29, 29)],
+    [gridId(29, 0), gridId(0, 29)],
+    ...pickPairs(grid, 20, 7)
+  ] as [string, string][];
+
+  const randomGraphs = [1, 2, 3].map(seed => createRandomGraph(150, createRandom(seed)));
+
+  it.each(OBJECTIVES)('on a street grid (%s)', objective => {
+    expectSameCosts(grid, gridPairs, objective);
+  });
+
+  it.each(OBJECTIVES)('on random graphs (%s)', objective => {
+    randomGraphs.forEach((graph, index) => expectSameCosts(graph, pickPairs(graph, 30, index), objective));
+  });
+
+  it('on random graphs with connections shorter than the straight line', () => {
+    const graph = randomGraphs[0];
+    const shortcuts = graph.connections.filter(
+      conn => conn.distance < haversineDistance(graph.points[conn.from], graph.points[conn.to])
+    );
+    expect(shortcuts.length).toBeGreaterThan(0);
+
+    expectSameCosts(graph, pickPairs(graph, 30, 11), 'shortest');
+  });
+
+  describe.each(Object.keys(TRAVEL_PROFILES) as TravelMode[])('for %s', profile => {
+    it.each(OBJECTIVES)('%s', objective => {
+      expectSameCosts(grid, gridPairs, objective, { profile });
+      randomGraphs.forEach((graph, index) =>
+        expectSameCosts(graph, pickPairs(graph, 30, index), objective, { profile })
+      );
+    });
+  });
+
+  describe('with speed profiles', () => {
+    const departures = {
+      'in the weekday rush hour': new Date(2024, 2, 4, 8, 0).getTime(),
+      'at night': new Date(2024, 2, 4, 23, 0).getTime(),
+      'just before the rush hour': new Date(2024, 2, 4, 6, 50).getTime()
+    };
+
+    it.each(Object.entries(departures))('departing %s', (_, departureTime) => {
+      const graphs = [withSpeedProfiles(grid), ...randomGraphs.map(withSpeedProfiles)];
+      OBJECTIVES.forEach(objective => {
+        expectSameCosts(graphs[0], gridPairs, objective, { departureTime });
+        graphs.slice(1).forEach((graph, index) =>
+          expectSameCosts(graph, pickPairs(graph, 20, index), objective, { departureTime, profile: 'driving' })
+        );
+      });
+    });
+  });
+});
+
+describe('findOptimalRoute', () => {
+  // Two roads between the same points: a short slow one, and a longer toll
+  // motorway that is quicker
+  const parallel: Graph = {
+    points: {
+      A: { id: 'A', name: 'A', lat: 40.7, lng: -74 },
+      B: { id: 'B', name: 'B', lat: 40.71, lng: -74 },
+      C: { id: 'C', name: 'C', lat: 40.72, lng: -74 }
+    },
+    connections: [
+      { from: 'A', to: 'B', distance: 1.2, time: 6 },
+      { from: 'A', to: 'B', distance: 1.6, time: 2, type: 'motorway', toll: true, tollCost: 3 },
+      { from: 'B', to: 'C', distance: 1.2, time: 3 }
+    ]
+  };
+
+  it('prices the connections it drove, not the shortest between the same points', () => {
+    const fastest = findOptimalRoute(parallel, 'A', ['C'], { objective: 'fastest' })!;
+    expect(fastest.totalDistance).toBeCloseTo(2.8, 9);
+    expect(fastest.cost?.tolls).toBe(3);
+
+    const shortest = findOptimalRoute(parallel, 'A', ['C'], { objective: 'shortest' })!;
+    expect(shortest.totalDistance).toBeCloseTo(2.4, 9);
+    expect(shortest.cost?.tolls).toBe(0);
+  });
+
+  it('keeps the connections it drove with the time each took', () => {
+    const rushHour = createRushHourProfile();
+    const graph: Graph = {
+      ...parallel,
+      speedProfiles: { [rushHour.id]: rushHour },
+      connections: parallel.connections.map(conn => ({ ...conn, speedProfile: rushHour.id }))
+    };
+    const route = findOptimalRoute(graph, 'A', ['C'], {
+      objective: 'fastest',
+      departureTime: new Date(2024, 2, 4, 8, 0).getTime()
+    })!;
+
+    expect(route.steps?.map(step => step.connection.distance)).toEqual([1.6, 1.2]);
+    expect(route.steps?.map(step => step.time)).toEqual([2 * 1.6, 3 * 1.6].map(time => expect.closeTo(time, 9)));
+    expect(route.emissions?.legs).toHaveLength(route.steps!.length);
+  });
+
+  it('lists the stops in the order it visits them', () => {
+    const route = findOptimalRoute(sampleGraph, 'A', ['D', 'B', 'Y'], { mode: 'round-trip' })!;
+    expect(route.stops).toHaveLength(5);
+    expect(route.stops![0]).toBe('A');
+    expect(route.stops!.at(-1)).toBe('A');
+    expect(new Set(route.stops!.slice(1, -1))).toEqual(new Set(['D', 'B', 'Y']));
+
+    // Each stop comes up on the path after the one before it
+    let from = 0;
+    route.stops!.forEach(id => {
+      from = route.path.indexOf(id, from);
+      expect(from).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  it('keeps a given stop order', () => {
+    const best = findOptimalRoute(sampleGraph, 'A', ['D', 'B', 'Y'])!;
+    const stopOrder = ['A', 'Y', 'D', 'B'];
+    const given = findOptimalRoute(sampleGraph, 'A', ['D', 'B', 'Y'], { stopOrder })!;
+
+    expect(best.stops).not.toEqual(stopOrder);
+    expect(given.stops).toEqual(stopOrder);
+    expect(given.strategy).toBe('given');
+  });
+
+  it('orders the stops itself when the given order does not fit them', () => {
+    const options = { mode: 'fixed-end' as const, endId: 'V' };
+    const best = findOptimalRoute(sampleGraph, 'A', ['D', 'B', 'Y'], options)!;
+
+    [['A', 'Y', 'D'], ['A', 'Y', 'D', 'B', 'C'], ['A', 'V', 'Y', 'D', 'B'], ['A', 'Y', 'Y', 'D', 'V']].forEach(stopOrder => {
+      const route = findOptimalRoute(sampleGraph, 'A', ['D', 'B', 'Y'], { ...options, stopOrder })!;
+      expect(route.stops).toEqual(best.stops);
+      expect(route.strategy).toBe('held-karp');
+    });
+  });
+
+  it('drives the greedy tour it reports improving on at the times it would be driven', () => {
+    // Leaving just before the rush hour, the legs run into it part of the way
+    const rushHour = createRushHourProfile();
+    const grid = createGridGraph(20);
+    const graph: Graph = {
+      ...grid,
+      speedProfiles: { [rushHour.id]: rushHour },
+      connections: grid.connections.map(conn => ({ ...conn, speedProfile: rushHour.id }))
+    };
+    const random = createRandom(5);
+    const destinations = Array.from({ length: 20 }, () => gridId(Math.floor(random() * 20), Math.floor(random() * 20)));
+
+    const route = findOptimalRoute(graph, gridId(0, 0), destinations, {
+      objective: 'fastest',
+      departureTime: new Date(2024, 2, 4, 6, 50).getTime()
+    })!;
+
+    expect(route.strategy).toBe('local-search');
+    expect(route.improvement!.timeSaved).toBeGreaterThanOrEqual(0);
+  });
+
+  it('leaves out a pair picked up at the fixed end point', () => {
+    const route = findOptimalRoute(sampleGraph, 'A', ['D'], {
+      mode: 'fixed-end',
+      endId: 'V',
+      pairs: [{ id: 'pair-1', pickupId: 'V', deliveryId: 'C' }]
+    })!;
+
+    expect(route.unserved).toEqual(['V']);
+    expect(route.stops).toEqual(['A', 'D', 'V']);
+  });
+});
+
+describe('pickup and delivery', () => {
+  const grid = createGridGraph(8);
+  const start = gridId(0, 0);
+  // Each delivery lies on the way back to the start from its pickup, so
+  // visiting the nearest stop first would deliver before picking up
+  const pairs = [
+    { id: 'pair-1', pickupId: gridId(6, 6), deliveryId: gridId(2, 2) },
+    { id: 'pair-2', pickupId: gridId(7, 1), deliveryId: gridId(3, 0) },
+    { id: 'pair-3', pickupId: gridId(1, 7), deliveryId: gridId(0, 3), quantity: 2 }
+  ];
+  const position = (route: Route, id: string) => route.stops!.indexOf(id);
+
+  it.each(OBJECTIVES)('picks up before delivering (%s)', objective => {
+    const route = findOptimalRoute(grid, start, [], { objective, pairs })!;
+
+    expect(route.stops).toHaveLength(7);
+    pairs.forEach(pair => expect(position(route, pair.pickupId)).toBeLessThan(position(route, pair.deliveryId)));
+  });
+
+  it('picks up before delivering on a route too long to order exactly', () => {
+    const random = createRandom(4);
+    const destinations = Array.from({ length: 16 }, () => gridId(Math.floor(random() * 8), Math.floor(random() * 8)));
+    const route = findOptimalRoute(grid, start, destinations, { pairs })!;
+
+    expect(route.strategy).not.toBe('held-karp');
+    pairs.forEach(pair => expect(position(route, pair.pickupId)).toBeLessThan(position(route, pair.deliveryId)));
+  });
+
+  it('tracks what is on board between pickup and delivery', () => {
+    const route = findOptimalRoute(grid, start, [], { pairs })!;
+
+    expect(route.loads![0].load).toBe(0);
+    expect(route.loads!.at(-1)!.load).toBe(0);
+    expect(Math.max(...route.loads!.map(step => step.load))).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('alternative routes', () => {
+  // Every road runs 1.6 times slower from 07:00 to 09:30 on weekdays
+  const rushHour = createRushHourProfile();
+  const graph: Graph = {
+    ...sampleGraph,
+    speedProfiles: { [rushHour.id]: rushHour },
+    connections: sampleGraph.connections.map(conn => ({ ...conn, speedProfile: rushHour.id }))
+  };
+  const mondayAtEight = new Date(2024, 2, 4, 8, 0).getTime();
+  const timesByPath = (routes: Route[]) => new Map(routes.map(route => [route.path.join('>'), route.totalTime]));
+
+  it('are timed for the departure', () => {
+    const freeFlow = timesByPath(findAlternativeRoutes(graph, 'A', 'D', 3, 'fastest'));
+    const routes = findAlternativeRoutes(graph, 'A', 'D', 3, 'fastest', { departureTime: mondayAtEight });
+
+    expect(routes).toHaveLength(3);
+    routes.forEach(route => expect(route.totalTime).toBeCloseTo(freeFlow.get(route.path.join('>'))! * 1.6, 9));
+  });
+
+  it('of a planned route are timed and scheduled like the route itself', () => {
+    const planned = findOptimalRoute(graph, 'A', ['D', 'Y'], {
+      objective: 'fastest',
+      departureTime: mondayAtEight,
+      alternatives: 2
+    })!;
+    const freeFlow = timesByPath(
+      findOptimalRoute(graph, 'A', ['D', 'Y'], { objective: 'fastest', alternatives: 4 })!.alternatives!
+    );
+
+    expect(planned.alternatives).toHaveLength(2);
+    planned.alternatives!.forEach(alternative => {
+      expect(alternative.totalTime).toBeCloseTo(freeFlow.get(alternative.path.join('>'))! * 1.6, 9);
+      expect(alternative.schedule?.[0].departure).toBe(mondayAtEight);
+      expect(alternative.schedule?.at(-1)?.arrival).toBeCloseTo(mondayAtEight + alternative.totalTime * 60000, 0);
+    });
+  });
+});
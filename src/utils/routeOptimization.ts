@@ -1,178 +1,1025 @@
+import { MinHeap } from './priorityQueue';
+import { AvoidOptions, AvoidZone, excludeAvoided, zonePenalties } from './avoidance';
+import { haversineDistance } from './geo';
+import { fastestFactor, hasSpeedProfiles, SpeedProfile, traversalTime } from './travelTime';
+import { hasTurnRules, turnPenalty, TurnRules } from './turns';
+import { applyTravelProfile, TravelMode } from './travelModes';
+import {
+  excludeRestricted,
+  hasPreferences,
+  preferenceFactor,
+  RoadClass,
+  RoadPreferences,
+  Surface
+} from './roadAttributes';
+import { CostBreakdown, CostModel, estimateRouteCost } from './routeCost';
+import { ECO_TIME_WEIGHT, ecoCost, estimateEmissions, RouteEmissions } from './emissions';
+import { buildLoadProfile, LoadStep, selectStopsWithinCapacity } from './capacity';
+import { buildSchedule, ScheduledStop, totalLateness } from './schedule';
+import {
+  improveTour,
+  improveTourWith,
+  LocalSearchOptions,
+  Precedence,
+  respectsPrecedence,
+  solveHeldKarp,
+  solveNearestNeighbour,
+  tourCost
+} from './tourSolvers';
+
 // Graph representation for points and connections
 export interface Point {
   id: string;
   name: string;
   lat: number;
   lng: number;
+  timeWindows?: TimeWindow[]; // when the stop accepts deliveries
+  serviceDuration?: number; // minutes spent at the stop
+  demand?: number; // parcels or kilograms delivered here
+}
+
+// Opening window in minutes after midnight, e.g. 9:00-11:00 is { start: 540, end: 660 }
+// and 22:00-02:00, which closes after midnight, is { start: 1320, end: 120 }
+export interface TimeWindow {
+  start: number;
+  end: number;
 }
 
+// Which travel modes may use a connection; see TravelProfile.speeds
+export type ConnectionType = 'motorway' | 'road' | 'cycleway' | 'footpath';
+
 export interface Connection {
   from: string;
   to: string;
   distance: number; // in kilometers
-  time: number; // in minutes
+  time: number; // in minutes at free flow; derived from the speed when a travel profile is applied
+  manualTime?: boolean; // `time` was entered by hand; the driving profile keeps it
+  oneWay?: boolean; // only traversable from `from` to `to`; roads are two-way by default
+  speedProfile?: string; // id in Graph.speedProfiles scaling `time` by time of day
+  type?: ConnectionType; // defaults to 'road'
+  maxHeight?: number; // metres, e.g. a low bridge
+  maxWeight?: number; // tonnes
+  roadClass?: RoadClass;
+  speedLimit?: number; // km/h; travel profiles never go faster
+  toll?: boolean;
+  tollCost?: number; // charged per use, when known
+  surface?: Surface; // paved when omitted
+  restricted?: boolean; // private or permit only; avoided unless RoadPreferences.allowRestricted
 }
 
 export interface Graph {
   points: Record<string, Point>;
   connections: Connection[];
+  zones?: AvoidZone[];
+  speedProfiles?: Record<string, SpeedProfile>;
+  turns?: TurnRules;
 }
 
+// A job collected at one point and dropped at another by the same vehicle
+export interface PickupDeliveryPair {
+  id: string;
+  pickupId: string;
+  deliveryId: string;
+  quantity?: number; // load carried between the two stops; defaults to 1
+}
+
+// How the stop order of a multi-stop route was chosen; 'given' keeps
+// RouteOptions.stopOrder
+export type RouteStrategy = 'direct' | 'held-karp' | 'greedy' | 'local-search' | 'given';
+
+// What the local search gained over the greedy starting tour
+export interface RouteImprovement {
+  baselineDistance: number;
+  baselineTime: number;
+  distanceSaved: number;
+  timeSaved: number;
+  iterations: number;
+}
+
+// A connection as the route drove it: its time includes the speed profile at
+// the hour it was driven and any turn penalty
+export interface RouteStep {
+  connection: Connection;
+  time: number;
+}
+
+// Where a multi-stop route finishes: after the last destination, back at the
+// start, or at a fixed end point
+export type RouteMode = 'open' | 'round-trip' | 'fixed-end';
+
 export interface Route {
   path: string[];
   totalDistance: number;
   totalTime: number;
+  steps?: RouteStep[]; // steps[i] leads from path[i] to path[i + 1]
+  stops?: string[]; // the start and the stops in visiting order, ending at a fixed end
+  strategy?: RouteStrategy;
+  improvement?: RouteImprovement;
+  mode?: RouteMode;
+  schedule?: ScheduledStop[]; // one entry per stop, including the start
+  loads?: LoadStep[]; // load on board after each stop, when demands or capacity are set
+  unserved?: string[]; // destinations left out for capacity or reachability
+  alternatives?: Route[]; // other ways to drive the same stops, cheapest first
+  profile?: TravelMode; // travel mode the route was planned for
+  cost?: CostBreakdown; // fuel, tolls and driver wage
+  emissions?: RouteEmissions;
 }
 
-// Dijkstra's algorithm for finding shortest path
-export function findShortestPath(
+export interface RouteOptions {
+  objective?: RouteObjective; // defaults to 'shortest'
+  mode?: RouteMode; // defaults to 'open'
+  endId?: string; // required final point when mode is 'fixed-end'
+  departureTime?: number; // epoch ms; enables the per-stop schedule
+  capacity?: number; // vehicle capacity in the same units as Point.demand
+  pairs?: PickupDeliveryPair[]; // pickups always come before their deliveries
+  alternatives?: number; // how many alternative routes to offer besides the best one
+  avoid?: AvoidOptions; // closures are checked against the departure time
+  profile?: TravelMode; // derive connection times and access from a travel profile
+  preferences?: RoadPreferences; // tolls, road classes and surfaces to steer around
+  costModel?: CostModel; // prices for the route's cost breakdown
+  // Budget for improving greedy tours; maxIterations: 0 keeps the greedy result
+  localSearch?: LocalSearchOptions;
+  // Visit the stops in this order (Route.stops of an earlier solve) instead of
+  // ordering them; ignored unless it lists exactly this route's stops
+  stopOrder?: string[];
+}
+
+// Largest destination count solved exactly; above this we fall back to greedy
+export const HELD_KARP_MAX_DESTINATIONS = 15;
+
+// Cost units charged per minute of lateness when ordering around time windows,
+// high enough that meeting windows always beats a shorter route
+const LATENESS_PENALTY = 1e6;
+
+const MINUTE_MS = 60 * 1000;
+
+// Time-dependent legs are cached per start point and departure bucket while
+// ordering stops; the final route is recomputed at the exact times
+const DEPARTURE_BUCKET_MS = 15 * MINUTE_MS;
+
+// Find the shortest connection that can be driven from one point to the next
+export function findConnection(
   graph: Graph,
-  startId: string,
-  endId: string
-): Route | null {
-  // Create adjacency list from connections
-  const adjacencyList: Record<string, { id: string; distance: number; time: number }[]> = {};
-  
+  fromId: string,
+  toId: string
+): Connection | undefined {
+  let best: Connection | undefined;
+
+  graph.connections.forEach(c => {
+    const drivable =
+      (c.from === fromId && c.to === toId) ||
+      (!c.oneWay && c.from === toId && c.to === fromId);
+
+    if (drivable && (!best || c.distance < best.distance)) {
+      best = c;
+    }
+  });
+
+  return best;
+}
+
+// Turns a connection into the cost the solver minimises. `time` is how long
+// the connection takes when it is entered, which differs from
+// connection.time on roads with a speed profile.
+export type CostFunction = (connection: Connection, time?: number) => number;
+
+// Built-in objectives, or a custom cost function over connection attributes
+export type RouteObjective = 'shortest' | 'fastest' | 'balanced' | 'eco' | CostFunction;
+
+// Weighted sum of connection attributes, e.g. { distance: 1, time: 0.5 }
+export function createWeightedCost(weights: { distance?: number; time?: number }): CostFunction {
+  const { distance: distanceWeight = 0, time: timeWeight = 0 } = weights;
+  return (connection, time = connection.time) => distanceWeight * connection.distance + timeWeight * time;
+}
+
+// 1 km weighs the same as 1 minute, i.e. a 60 km/h trade-off
+const balancedCost = createWeightedCost({ distance: 1, time: 1 });
+
+function resolveCostFunction(objective: RouteObjective = 'shortest'): CostFunction {
+  if (typeof objective === 'function') return objective;
+
+  switch (objective) {
+    case 'fastest':
+      return (connection, time = connection.time) => time;
+    case 'balanced':
+      return balancedCost;
+    case 'eco':
+      return ecoCost;
+    default:
+      return connection => connection.distance;
+  }
+}
+
+// The objective's cost function on a particular graph, raised for
+// connections through the graph's penalised zones and for connections the
+// request's road preferences steer away from
+function resolveGraphCost(graph: Graph, objective?: RouteObjective, preferences?: RoadPreferences): CostFunction {
+  const costOf = resolveCostFunction(objective);
+  const penalties = zonePenalties(graph);
+  const preferring = hasPreferences(preferences);
+  if (penalties.size === 0 && !preferring) return costOf;
+
+  return (connection, time) =>
+    costOf(connection, time) *
+    (penalties.get(connection) ?? 1) *
+    (preferring ? preferenceFactor(connection, preferences!) : 1);
+}
+
+interface Neighbor {
+  id: string;
+  connection: Connection;
+}
+
+type AdjacencyList = Record<string, Neighbor[]>;
+
+// Adjacency lists are cached per graph object. Graphs are treated as immutable
+// (the UI replaces the object on every edit), so a stale entry is never reused.
+const adjacencyCache = new WeakMap<Graph, AdjacencyList>();
+
+function getAdjacencyList(graph: Graph): AdjacencyList {
+  const cached = adjacencyCache.get(graph);
+  if (cached) return cached;
+
+  const adjacencyList: AdjacencyList = {};
+
   // Initialize adjacency list for all points
   Object.keys(graph.points).forEach(pointId => {
     adjacencyList[pointId] = [];
   });
-  
+
   // Populate adjacency list with connections
   graph.connections.forEach(conn => {
-    adjacencyList[conn.from].push({
-      id: conn.to,
-      distance: conn.distance,
-      time: conn.time
-    });
-    // Add reverse connection if bidirectional (assuming all roads are bidirectional)
-    adjacencyList[conn.to].push({
-      id: conn.from,
-      distance: conn.distance,
-      time: conn.time
-    });
+    if (!adjacencyList[conn.from] || !adjacencyList[conn.to]) return;
+
+    adjacencyList[conn.from].push({ id: conn.to, connection: conn });
+    // Add reverse connection unless the road is one-way
+    if (conn.oneWay) return;
+    adjacencyList[conn.to].push({ id: conn.from, connection: conn });
   });
-  
-  // Initialize distances, times and previous nodes
-  const distances: Record<string, number> = {};
-  const times: Record<string, number> = {};
-  const previous: Record<string, string | null> = {};
-  const visited: Set<string> = new Set();
-  
-  // Set initial values
-  Object.keys(graph.points).forEach(pointId => {
-    distances[pointId] = Infinity;
-    times[pointId] = Infinity;
-    previous[pointId] = null;
+
+  adjacencyCache.set(graph, adjacencyList);
+  return adjacencyList;
+}
+
+// Lower bounds on how a graph's connections relate to straight-line distance,
+// used to keep A* heuristics admissible even for hand-entered connections
+interface GraphGeometry {
+  distanceRatio: number; // smallest connection distance per straight-line km, at most 1
+  maxSpeed: number; // fastest straight-line km per minute of any connection at any time
+}
+
+const geometryCache = new WeakMap<Graph, GraphGeometry>();
+
+function getGraphGeometry(graph: Graph): GraphGeometry {
+  const cached = geometryCache.get(graph);
+  if (cached) return cached;
+
+  let distanceRatio = 1;
+  let maxSpeed = 0;
+
+  graph.connections.forEach(conn => {
+    const from = graph.points[conn.from];
+    const to = graph.points[conn.to];
+    if (!from || !to) return;
+
+    const straight = haversineDistance(from, to);
+    if (straight === 0) return;
+
+    distanceRatio = Math.min(distanceRatio, conn.distance / straight);
+    const fastestTime = conn.time * fastestFactor(graph, conn);
+    maxSpeed = Math.max(maxSpeed, fastestTime > 0 ? straight / fastestTime : Infinity);
   });
-  
-  // Distance and time from start to start is 0
-  distances[startId] = 0;
-  times[startId] = 0;
-  
-  // Process nodes
-  while (visited.size < Object.keys(graph.points).length) {
-    // Find unvisited node with minimum distance
-    let current: string | null = null;
-    let shortestDistance = Infinity;
-    
-    Object.keys(graph.points).forEach(pointId => {
-      if (!visited.has(pointId) && distances[pointId] < shortestDistance) {
-        shortestDistance = distances[pointId];
-        current = pointId;
-      }
-    });
-    
-    // If no reachable nodes or we've reached the end, break
-    if (current === null || current === endId) break;
-    
-    visited.add(current);
-    
-    // Check neighbors
-    adjacencyList[current].forEach(neighbor => {
-      if (visited.has(neighbor.id)) return;
-      
-      const distance = distances[current] + neighbor.distance;
-      const time = times[current] + neighbor.time;
-      
-      if (distance < distances[neighbor.id]) {
-        distances[neighbor.id] = distance;
-        times[neighbor.id] = time;
-        previous[neighbor.id] = current;
+
+  const geometry = { distanceRatio, maxSpeed };
+  geometryCache.set(graph, geometry);
+  return geometry;
+}
+
+// Estimated remaining cost from a point to the target; never more than the real cost
+type Heuristic = (pointId: string) => number;
+
+// Great-circle distance bounds the remaining distance, and the same distance
+// at the graph's top speed bounds the remaining time. Custom cost functions
+// get no estimate, which turns A* back into Dijkstra.
+function createHeuristic(graph: Graph, endId: string, objective: RouteObjective): Heuristic | undefined {
+  const target = graph.points[endId];
+  if (!target || typeof objective === 'function') return undefined;
+
+  const { distanceRatio, maxSpeed } = getGraphGeometry(graph);
+  const distanceBound = (id: string) => distanceRatio * haversineDistance(graph.points[id], target);
+  const timeBound = (id: string) =>
+    maxSpeed === Infinity || maxSpeed === 0 ? 0 : haversineDistance(graph.points[id], target) / maxSpeed;
+
+  switch (objective) {
+    case 'fastest':
+      return timeBound;
+    case 'balanced':
+      return id => distanceBound(id) + timeBound(id);
+    case 'eco':
+      return id => distanceBound(id) + ECO_TIME_WEIGHT * timeBound(id);
+    default:
+      return distanceBound;
+  }
+}
+
+// Search results keyed by search state. Without turn rules a state is just a
+// point; with them it is the point plus the connection used to reach it,
+// since the cost of leaving a point depends on how it was entered.
+interface ShortestPathTree {
+  costs: Map<string, number>;
+  distances: Map<string, number>;
+  times: Map<string, number>;
+  previous: Map<string, string>;
+  via: Map<string, Connection>; // state -> connection it was reached by
+  pointOf: Map<string, string>; // state -> point id
+  settled: Map<string, string>; // point id -> its cheapest state
+}
+
+interface PathSearch {
+  targets?: string[]; // stop once all of these are settled
+  heuristic?: Heuristic; // consistent estimate towards a single target
+  isBlocked?: (fromId: string, toId: string) => boolean; // moves the search may not make
+  departureTime?: number; // epoch ms leaving the start; makes travel times time-dependent
+  arrivedFrom?: string; // point the start was entered from, for the first turn
+}
+
+// Dijkstra's algorithm from a single source using a binary heap.
+// Stops early once every id in `targets` has been settled. With a consistent
+// `heuristic` towards a single target this is A*. Turn rules on the graph
+// switch to an edge-based search so penalties and bans apply per turn.
+function buildShortestPathTree(
+  graph: Graph,
+  startId: string,
+  costOf: CostFunction,
+  { targets, heuristic = () => 0, isBlocked, departureTime, arrivedFrom }: PathSearch = {}
+): ShortestPathTree {
+  const adjacencyList = getAdjacencyList(graph);
+  const turnAware = hasTurnRules(graph);
+  const costs = new Map<string, number>();
+  const distances = new Map<string, number>();
+  const times = new Map<string, number>();
+  const previous = new Map<string, string>();
+  const via = new Map<string, Connection>();
+  const pointOf = new Map<string, string>();
+  const settled = new Map<string, string>();
+  const visited = new Set<string>();
+  const remainingTargets = targets ? new Set(targets) : null;
+  const tree = { costs, distances, times, previous, via, pointOf, settled };
+
+  if (!adjacencyList[startId]) return tree;
+
+  costs.set(startId, 0);
+  distances.set(startId, 0);
+  times.set(startId, 0);
+  pointOf.set(startId, startId);
+
+  const queue = new MinHeap<string>();
+  queue.push(startId, heuristic(startId));
+
+  while (!queue.isEmpty()) {
+    const { value: state, priority } = queue.pop()!;
+    const current = pointOf.get(state)!;
+
+    // Skip stale queue entries left behind by later relaxations
+    if (visited.has(state) || priority > costs.get(state)! + heuristic(current)) continue;
+    visited.add(state);
+
+    // States leave the queue cheapest first, so the first one settles the
+    // point; later states still expand as they may allow other turns
+    if (!settled.has(current)) settled.set(current, state);
+
+    if (remainingTargets) {
+      remainingTargets.delete(current);
+      if (remainingTargets.size === 0) break;
+    }
+
+    const currentCost = costs.get(state)!;
+    const cameFrom = previous.has(state) ? pointOf.get(previous.get(state)!) : arrivedFrom;
+
+    for (const { id, connection } of adjacencyList[current]) {
+      const next = turnAware ? `${current}>${id}` : id;
+      if (visited.has(next) || isBlocked?.(current, id)) continue;
+
+      // Turning costs time, and banned turns cannot be made at all
+      const turn = turnAware && cameFrom !== undefined ? turnPenalty(graph, cameFrom, current, id) : 0;
+      if (turn === Infinity) continue;
+
+      // Travel times depend on when the connection is entered
+      const travel = departureTime === undefined
+        ? connection.time
+        : traversalTime(graph, connection, departureTime + (times.get(state)! + turn) * MINUTE_MS);
+      const time = turn + travel;
+      // The minutes spent turning weigh what the same minutes on the next
+      // connection would, so the penalty counts under every objective
+      const cost = currentCost + (turn > 0 && travel > 0
+        ? costOf(connection, travel) * (time / travel)
+        : costOf(connection, time));
+      const known = costs.get(next);
+
+      if (known === undefined || cost < known) {
+        costs.set(next, cost);
+        distances.set(next, distances.get(state)! + connection.distance);
+        times.set(next, times.get(state)! + time);
+        previous.set(next, state);
+        via.set(next, connection);
+        pointOf.set(next, id);
+        queue.push(next, cost + heuristic(id));
       }
-    });
+    }
   }
-  
+
+  return tree;
+}
+
+// A route together with the objective cost it was chosen by and the
+// connections it drives, one per step
+interface Leg {
+  route: Route;
+  cost: number;
+  connections: Connection[];
+}
+
+// A path with the running totals at each of its points, so that paths can be
+// spliced together
+interface RankedPath {
+  path: string[];
+  costs: number[];
+  distances: number[];
+  times: number[];
+  connections: Connection[]; // connections[i] leads from path[i] to path[i + 1]
+}
+
+function extractRankedPath(tree: ShortestPathTree, endId: string): RankedPath | null {
   // If end is not reachable
-  if (distances[endId] === Infinity) return null;
-  
-  // Reconstruct path
-  const path: string[] = [];
-  let current: string | null = endId;
-  
-  while (current !== null) {
-    path.unshift(current);
-    current = previous[current];
+  const endState = tree.settled.get(endId);
+  if (endState === undefined) return null;
+
+  // Reconstruct the states along the path
+  const states: string[] = [];
+  let current: string | undefined = endState;
+
+  while (current !== undefined) {
+    states.push(current);
+    current = tree.previous.get(current);
   }
-  
+  states.reverse();
+
   return {
-    path,
-    totalDistance: distances[endId],
-    totalTime: times[endId]
+    path: states.map(state => tree.pointOf.get(state)!),
+    costs: states.map(state => tree.costs.get(state)!),
+    distances: states.map(state => tree.distances.get(state)!),
+    times: states.map(state => tree.times.get(state)!),
+    connections: states.slice(1).map(state => tree.via.get(state)!)
   };
 }
 
+function toLeg({ path, costs, distances, times, connections }: RankedPath): Leg {
+  const last = path.length - 1;
+  return {
+    route: {
+      path,
+      totalDistance: distances[last],
+      totalTime: times[last],
+      steps: connections.map((connection, i) => ({ connection, time: times[i + 1] - times[i] }))
+    },
+    cost: costs[last],
+    connections
+  };
+}
+
+function extractLeg(tree: ShortestPathTree, endId: string): Leg | null {
+  const ranked = extractRankedPath(tree, endId);
+  return ranked ? toLeg(ranked) : null;
+}
+
+// Yen's algorithm: up to k cheapest paths that never visit a point twice.
+// Each new path branches off an accepted one at a "spur" point, avoiding the
+// moves earlier paths with the same beginning took from there. With a
+// departure time the spur search leaves when the root arrives at the spur.
+function findKShortestLegs(
+  graph: Graph,
+  startId: string,
+  endId: string,
+  k: number,
+  costOf: CostFunction,
+  heuristic?: Heuristic,
+  departureTime?: number
+): Leg[] {
+  const first = extractRankedPath(
+    buildShortestPathTree(graph, startId, costOf, { targets: [endId], heuristic, departureTime }),
+    endId
+  );
+  if (!first || k <= 0) return [];
+
+  const accepted: RankedPath[] = [first];
+  const candidates: RankedPath[] = [];
+  const seen = new Set([first.path.join('>')]);
+  const totalCost = (ranked: RankedPath) => ranked.costs[ranked.costs.length - 1];
+
+  while (accepted.length < k) {
+    const last = accepted[accepted.length - 1];
+
+    for (let j = 0; j < last.path.length - 1; j++) {
+      const spurId = last.path[j];
+      const root = last.path.slice(0, j + 1);
+
+      const blockedMoves = new Set<string>();
+      accepted.forEach(ranked => {
+        if (ranked.path.length > j + 1 && root.every((id, i) => ranked.path[i] === id)) {
+          blockedMoves.add(`${spurId}>${ranked.path[j + 1]}`);
+        }
+      });
+      const rootPoints = new Set(root.slice(0, -1));
+
+      const spur = extractRankedPath(
+        buildShortestPathTree(graph, spurId, costOf, {
+          targets: [endId],
+          heuristic,
+          departureTime: departureTime === undefined ? undefined : departureTime + last.times[j] * MINUTE_MS,
+          arrivedFrom: root[j - 1],
+          isBlocked: (fromId, toId) => rootPoints.has(toId) || blockedMoves.has(`${fromId}>${toId}`)
+        }),
+        endId
+      );
+      if (!spur) continue;
+
+      const path = [...root, ...spur.path.slice(1)];
+      const key = path.join('>');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // Continue the root's running totals along the spur
+      const splice = (rootValues: number[], spurValues: number[]) => [
+        ...rootValues.slice(0, j + 1),
+        ...spurValues.slice(1).map(value => value + rootValues[j])
+      ];
+
+      candidates.push({
+        path,
+        costs: splice(last.costs, spur.costs),
+        distances: splice(last.distances, spur.distances),
+        times: splice(last.times, spur.times),
+        connections: [...last.connections.slice(0, j), ...spur.connections]
+      });
+    }
+
+    if (candidates.length === 0) break;
+
+    candidates.sort((a, b) => totalCost(a) - totalCost(b));
+    accepted.push(candidates.shift()!);
+  }
+
+  return accepted.map(toLeg);
+}
+
+export type SearchAlgorithm = 'dijkstra' | 'astar';
+
+export interface PathOptions {
+  algorithm?: SearchAlgorithm; // defaults to 'astar'
+  avoid?: AvoidOptions;
+  departureTime?: number; // epoch ms; closures are checked then (default now) and speed profiles apply
+  profile?: TravelMode;
+  preferences?: RoadPreferences;
+}
+
+// The part of a graph a request may search: what its travel mode can use,
+// minus restricted roads, closed roads and avoided points
+export function usableGraph(
+  graph: Graph,
+  { profile, preferences, avoid, departureTime }: Pick<RouteOptions, 'profile' | 'preferences' | 'avoid' | 'departureTime'>
+): Graph {
+  return excludeAvoided(excludeRestricted(applyTravelProfile(graph, profile), preferences), avoid, departureTime);
+}
+
+// Best path between two points under the given objective. A* (the default)
+// returns the same cost as Dijkstra but explores towards the target first.
+export function findShortestPath(
+  graph: Graph,
+  startId: string,
+  endId: string,
+  objective: RouteObjective = 'shortest',
+  options: PathOptions = {}
+): Route | null {
+  graph = usableGraph(graph, options);
+  const heuristic = options.algorithm === 'dijkstra' ? undefined : createHeuristic(graph, endId, objective);
+  const tree = buildShortestPathTree(graph, startId, resolveGraphCost(graph, objective, options.preferences), {
+    targets: [endId],
+    heuristic,
+    departureTime: hasSpeedProfiles(graph) ? options.departureTime : undefined
+  });
+  return extractLeg(tree, endId)?.route ?? null;
+}
+
+// Up to `count` loopless paths between two points under the objective, cheapest first
+export function findAlternativeRoutes(
+  graph: Graph,
+  startId: string,
+  endId: string,
+  count = 3,
+  objective: RouteObjective = 'shortest',
+  options: PathOptions = {}
+): Route[] {
+  graph = usableGraph(graph, options);
+  return findKShortestLegs(
+    graph,
+    startId,
+    endId,
+    count,
+    resolveGraphCost(graph, objective, options.preferences),
+    createHeuristic(graph, endId, objective),
+    hasSpeedProfiles(graph) ? options.departureTime : undefined
+  ).map(leg => leg.route);
+}
+
+// The `count` cheapest ways to drive a fixed sequence of stops, each as its
+// legs, built from every leg's k shortest paths. The first one is the best
+// route itself. With a departure time each leg's paths are searched from when
+// that way through the earlier stops leaves, after windows and service.
+function combineLegAlternatives(
+  graph: Graph,
+  stopIds: string[],
+  count: number,
+  objective: RouteObjective = 'shortest',
+  preferences?: RoadPreferences,
+  departureTime?: number
+): Leg[][] {
+  const costOf = resolveGraphCost(graph, objective, preferences);
+  const stops = stopIds.map(id => graph.points[id]);
+  const totalCost = (legs: Leg[]) => legs.reduce((sum, leg) => sum + leg.cost, 0);
+  const leaves = (legs: Leg[]) => {
+    if (departureTime === undefined) return undefined;
+    const schedule = buildSchedule(stops.slice(0, legs.length + 1), i => legs[i].route.totalTime, departureTime);
+    return schedule[schedule.length - 1].departure;
+  };
+
+  let combined: Leg[][] = [[]];
+
+  for (let i = 1; i < stopIds.length; i++) {
+    // Ways through the earlier stops that leave at the same time share a search
+    const optionsAt = new Map<number | undefined, Leg[]>();
+    const optionsLeaving = (departure: number | undefined) => {
+      if (!optionsAt.has(departure)) {
+        optionsAt.set(departure, findKShortestLegs(
+          graph,
+          stopIds[i - 1],
+          stopIds[i],
+          count,
+          costOf,
+          createHeuristic(graph, stopIds[i], objective),
+          departure
+        ));
+      }
+      return optionsAt.get(departure)!;
+    };
+
+    combined = combined
+      .flatMap(sofar => optionsLeaving(leaves(sofar)).map(leg => [...sofar, leg]))
+      .sort((a, b) => totalCost(a) - totalCost(b))
+      .slice(0, count);
+  }
+
+  return combined;
+}
+
+// Best paths between every pair of stops, one search per stop; with a
+// departure time every leg is priced as if it started then
+function buildLegMatrix(
+  graph: Graph,
+  stops: string[],
+  costOf: CostFunction,
+  departureTime?: number
+): (Leg | null)[][] {
+  return stops.map(from => {
+    const tree = buildShortestPathTree(graph, from, costOf, { targets: stops, departureTime });
+    return stops.map(to => extractLeg(tree, to));
+  });
+}
+
+// Objective cost of the best path between every pair of points
+// (Infinity where one cannot be reached from the other)
+export function buildCostMatrix(
+  graph: Graph,
+  pointIds: string[],
+  objective?: RouteObjective,
+  preferences?: RoadPreferences
+): number[][] {
+  return buildLegMatrix(graph, pointIds, resolveGraphCost(graph, objective, preferences))
+    .map(row => row.map(leg => (leg ? leg.cost : Infinity)));
+}
+
+// Join consecutive legs into a single route
+function joinRoute(startId: string, legs: Leg[], strategy?: RouteStrategy): Route {
+  const route: Route = { path: [startId], totalDistance: 0, totalTime: 0, steps: [], strategy };
+
+  legs.forEach(({ route: leg }) => {
+    route.path.push(...leg.path.slice(1));
+    route.steps.push(...leg.steps);
+    route.totalDistance += leg.totalDistance;
+    route.totalTime += leg.totalTime;
+  });
+
+  return route;
+}
+
+// The matrix legs between consecutive stops of an order
+function legsInOrder(legs: (Leg | null)[][], order: number[]): Leg[] {
+  return order.slice(1).map((to, i) => legs[order[i]][to]!);
+}
+
+// Matrix indices of stop ids listed in visiting order, or null unless they are
+// exactly the stops, beginning at the start and finishing at a fixed end
+function indexOrder(stopOrder: string[] | undefined, stops: string[], fixedEnd: boolean): number[] | null {
+  if (!stopOrder || stopOrder.length !== stops.length || stopOrder[0] !== stops[0]) return null;
+  if (fixedEnd && stopOrder[stopOrder.length - 1] !== stops[stops.length - 1]) return null;
+
+  const last = fixedEnd ? stops.length - 1 : stops.length;
+  const middle = stopOrder.slice(1, last).map(id => stops.indexOf(id, 1));
+  if (middle.some(index => index < 1 || index >= last) || new Set(middle).size !== middle.length) return null;
+
+  return fixedEnd ? [0, ...middle, last] : [0, ...middle];
+}
+
+// Join the matrix legs between consecutive stops of an order
+function joinLegs(
+  stops: string[],
+  legs: (Leg | null)[][],
+  order: number[],
+  strategy: RouteStrategy
+): Route {
+  return joinRoute(stops[order[0]], legsInOrder(legs, order), strategy);
+}
+
 // Function to find optimal route visiting multiple points
 export function findOptimalRoute(
   graph: Graph,
   startId: string,
-  destinations: string[]
+  destinations: string[],
+  options: RouteOptions = {}
 ): Route | null {
-  if (destinations.length === 0) return null;
+  if (destinations.length === 0 && !options.pairs?.length) return null;
   
-  // If only one destination, just find shortest path to it
-  if (destinations.length === 1) {
-    return findShortestPath(graph, startId, destinations[0]);
+  graph = usableGraph(graph, options);
+  
+  // Resolve where the route has to finish
+  const mode = options.mode ?? 'open';
+  const endId = mode === 'round-trip' ? startId : mode === 'fixed-end' ? options.endId : undefined;
+  if (mode === 'fixed-end' && !endId) return null;
+  
+  // The end point is visited last anyway, so it is not a separate destination
+  const isEndpoint = (id: string) => id === startId || id === endId;
+  let stopsToVisit = destinations.filter(d => !isEndpoint(d));
+  const fixedEnd = endId !== undefined;
+  const costOf = resolveGraphCost(graph, options.objective, options.preferences);
+  
+  // A delivery cannot happen at the start unless the route comes back to it,
+  // and nothing picked up at a fixed end point can be delivered afterwards
+  let pairs = options.pairs ?? [];
+  const unreachablePairs = pairs.filter(pair =>
+    endId !== startId && (pair.deliveryId === startId || (fixedEnd && pair.pickupId === endId))
+  );
+  pairs = pairs.filter(pair => !unreachablePairs.includes(pair));
+  
+  // Leave out whatever does not fit in the vehicle: pairs first (as if all
+  // their loads were on board at once), then the nearest plain stops
+  let overCapacity: string[] = [];
+  if (options.capacity !== undefined) {
+    let reserved = 0;
+    const fittingPairs = pairs.filter(pair => {
+      const quantity = pair.quantity ?? 1;
+      if (reserved + quantity > options.capacity!) return false;
+      reserved += quantity;
+      return true;
+    });
+    overCapacity.push(...pairs.filter(pair => !fittingPairs.includes(pair)).map(pair => pair.pickupId));
+    pairs = fittingPairs;
+    
+    const fromStart = buildShortestPathTree(graph, startId, costOf, { targets: stopsToVisit });
+    const { selected, rejected } = selectStopsWithinCapacity(
+      graph,
+      stopsToVisit,
+      options.capacity - reserved,
+      id => (fromStart.settled.has(id) ? fromStart.costs.get(fromStart.settled.get(id)!)! : Infinity)
+    );
+    stopsToVisit = selected;
+    overCapacity = [...overCapacity, ...rejected];
   }
   
-  // For multiple destinations, we'll use a greedy approach
-  // (not optimal for TSP but good enough for demonstration)
-  let currentPosition = startId;
-  let remainingDestinations = [...destinations];
-  let totalRoute: Route = { path: [startId], totalDistance: 0, totalTime: 0 };
+  // Plain destinations keep their demand semantics; pair endpoints are extra stops
+  const plainStops = new Set(stopsToVisit);
+  const pairStops = pairs.flatMap(pair => [pair.pickupId, pair.deliveryId]).filter(id => !isEndpoint(id));
+  stopsToVisit = Array.from(new Set([...stopsToVisit, ...pairStops]));
+  if (stopsToVisit.length === 0) return null;
+  
+  // A fixed end point is appended as the last matrix index
+  const stops = fixedEnd ? [startId, ...stopsToVisit, endId] : [startId, ...stopsToVisit];
   
-  // Keep finding the nearest unvisited destination
-  while (remainingDestinations.length > 0) {
-    let nearestDestination: string | null = null;
-    let shortestRoute: Route | null = null;
+  // With speed profiles, the matrix used to seed the order assumes every leg
+  // leaves at the departure time; orders are then scored at their real times
+  const departureTime = options.departureTime ?? Date.now();
+  const timeDependent = options.departureTime !== undefined && hasSpeedProfiles(graph);
+  const legs = buildLegMatrix(graph, stops, costOf, timeDependent ? departureTime : undefined);
+  const cost = legs.map(row => row.map(leg => (leg ? leg.cost : Infinity)));
+  
+  // Pickups before deliveries; the start and a fixed end are ordered already
+  const precedence: Precedence = pairs
+    .filter(pair => pair.pickupId !== startId && !(fixedEnd && pair.deliveryId === endId))
+    .map(pair => [stops.indexOf(pair.pickupId), stops.indexOf(pair.deliveryId)]);
+  
+  let order: number[] | null = null;
+  let strategy: RouteStrategy;
+  let greedyOrder: number[] | null = null;
+  let iterations = 0;
+  
+  // Keep a given order while every leg of it can still be driven
+  const givenOrder = indexOrder(options.stopOrder, stops, fixedEnd);
+  
+  if (givenOrder && tourCost(cost, givenOrder) < Infinity && respectsPrecedence(givenOrder, precedence)) {
+    order = givenOrder;
+    strategy = 'given';
+  } else if (!fixedEnd && stopsToVisit.length === 1) {
+    // Only one destination on an open route: the best path to it
+    if (legs[0][1]) order = [0, 1];
+    strategy = 'direct';
+  } else if (stopsToVisit.length <= HELD_KARP_MAX_DESTINATIONS) {
+    // Small stop lists are solved exactly
+    order = solveHeldKarp(cost, fixedEnd, precedence)?.order ?? null;
+    strategy = 'held-karp';
+  }
+  
+  // Larger lists, or ones where some destination is unreachable so the exact
+  // solver has no full tour, start from a greedy nearest-neighbour tour
+  // (not optimal for TSP) that local search then improves
+  if (!order) {
+    const greedyTour = solveNearestNeighbour(cost, fixedEnd, precedence);
+    
+    // Nothing reachable, or the end point cannot be reached
+    if (greedyTour.order.length === 1 || greedyTour.cost === Infinity) return null;
     
-    // Find the nearest unvisited destination
-    for (const destination of remainingDestinations) {
-      const route = findShortestPath(graph, currentPosition, destination);
-      
-      if (!route) continue;
-      
-      if (!shortestRoute || route.totalDistance < shortestRoute.totalDistance) {
-        shortestRoute = route;
-        nearestDestination = destination;
+    greedyOrder = greedyTour.order;
+    order = greedyOrder;
+    strategy = 'greedy';
+    
+    // Leg-by-leg moves know nothing about precedence; pairs are handled below
+    if (precedence.length === 0) {
+      const improved = improveTour(cost, order, { ...options.localSearch, fixedEnd });
+      if (improved.iterations > 0) {
+        order = improved.order;
+        strategy = 'local-search';
+        iterations += improved.iterations;
       }
     }
+  }
+  
+  // The leg between two stops when leaving at a given time: the matrix entry,
+  // or with speed profiles one search per stop and 15-minute departure bucket
+  const timedLegs = new Map<string, (Leg | null)[]>();
+  const legAt = (from: number, to: number, departure: number): Leg | null => {
+    if (!timeDependent) return legs[from][to];
     
-    // If no reachable destination, break
-    if (!shortestRoute || !nearestDestination) break;
+    const bucket = Math.floor(departure / DEPARTURE_BUCKET_MS) * DEPARTURE_BUCKET_MS;
+    const key = `${from}@${bucket}`;
+    if (!timedLegs.has(key)) {
+      const tree = buildShortestPathTree(graph, stops[from], costOf, { targets: stops, departureTime: bucket });
+      timedLegs.set(key, stops.map(id => extractLeg(tree, id)));
+    }
+    return timedLegs.get(key)![to];
+  };
+  
+  const scheduleFor = (candidate: number[]) => buildSchedule(
+    candidate.map(index => graph.points[stops[index]]),
+    (i, departure) => legAt(candidate[i], candidate[i + 1], departure)?.route.totalTime ?? Infinity,
+    departureTime
+  );
+  const hasTimeWindows = stopsToVisit.some(id => graph.points[id]?.timeWindows?.length);
+  
+  // Time windows, pickup/delivery pairs and speed profiles need every
+  // candidate order scored in full: broken precedence is infeasible, then
+  // lateness, then cost with each leg priced when it is actually driven
+  if ((hasTimeWindows || precedence.length > 0 || timeDependent) && order.length > 2 && strategy !== 'given') {
+    const repaired = improveTourWith(
+      candidate => {
+        const legCost = tourCost(cost, candidate);
+        if (legCost === Infinity || !respectsPrecedence(candidate, precedence)) return Infinity;
+        if (!hasTimeWindows && !timeDependent) return legCost;
+        
+        const schedule = scheduleFor(candidate);
+        const lateness = hasTimeWindows ? totalLateness(schedule) : 0;
+        const timedCost = timeDependent
+          ? candidate.slice(1).reduce((sum, index, i) => sum + legAt(candidate[i], index, schedule[i].departure)!.cost, 0)
+          : legCost;
+        return lateness * LATENESS_PENALTY + timedCost;
+      },
+      order,
+      { ...options.localSearch, fixedEnd }
+    );
     
-    // Add this segment to the total route
-    // Remove the starting point to avoid duplication
-    totalRoute.path = [...totalRoute.path, ...shortestRoute.path.slice(1)];
-    totalRoute.totalDistance += shortestRoute.totalDistance;
-    totalRoute.totalTime += shortestRoute.totalTime;
+    if (repaired.iterations > 0) {
+      order = repaired.order;
+      strategy = 'local-search';
+      iterations += repaired.iterations;
+    }
+  }
+  
+  // Drive an order at the exact times each leg starts
+  const driveOrder = (candidate: number[]) => {
+    const driven: Leg[] = [];
+    const schedule = buildSchedule(
+      candidate.map(index => graph.points[stops[index]]),
+      (i, departure) => {
+        const tree = buildShortestPathTree(graph, stops[candidate[i]], costOf, {
+          targets: [stops[candidate[i + 1]]],
+          departureTime: departure
+        });
+        driven[i] = extractLeg(tree, stops[candidate[i + 1]])!;
+        return driven[i].route.totalTime;
+      },
+      departureTime
+    );
+    return { driven, schedule };
+  };
+  
+  let route: Route;
+  let routeLegs: Leg[];
+  
+  if (timeDependent) {
+    const { driven, schedule } = driveOrder(order);
+    route = { ...joinRoute(startId, driven, strategy), mode, schedule };
+    routeLegs = driven;
+  } else {
+    route = { ...joinLegs(stops, legs, order, strategy), mode };
+    routeLegs = legsInOrder(legs, order);
     
-    // Update current position and remove visited destination
-    currentPosition = nearestDestination;
-    remainingDestinations = remainingDestinations.filter(d => d !== nearestDestination);
+    if (options.departureTime !== undefined || hasTimeWindows) {
+      route.schedule = scheduleFor(order);
+    }
+  }
+  
+  // Report what local search gained over the greedy starting tour, driven
+  // the same way as the route itself
+  if (greedyOrder && strategy === 'local-search') {
+    const greedyRoute = timeDependent
+      ? joinRoute(startId, driveOrder(greedyOrder).driven, 'greedy')
+      : joinLegs(stops, legs, greedyOrder, 'greedy');
+    route.improvement = {
+      baselineDistance: greedyRoute.totalDistance,
+      baselineTime: greedyRoute.totalTime,
+      distanceSaved: greedyRoute.totalDistance - route.totalDistance,
+      timeSaved: greedyRoute.totalTime - route.totalTime,
+      iterations
+    };
+  }
+  
+  const stopIds = order.map(index => stops[index]);
+  route.stops = stopIds;
+  if (options.capacity !== undefined || pairs.length > 0 || stopsToVisit.some(id => graph.points[id]?.demand)) {
+    route.loads = buildLoadProfile(graph, stopIds, plainStops, pairs);
+  }
+  
+  // Greedy tours skip destinations they cannot reach
+  const visited = new Set(stopIds);
+  const unserved = [
+    ...overCapacity,
+    ...unreachablePairs.map(pair => pair.pickupId),
+    ...stopsToVisit.filter(id => !visited.has(id))
+  ];
+  if (unserved.length > 0) route.unserved = Array.from(new Set(unserved));
+  if (options.profile) route.profile = options.profile;
+  const connections = routeLegs.flatMap(leg => leg.connections);
+  route.cost = estimateRouteCost(route, connections, options.costModel);
+  route.emissions = estimateEmissions(route, connections);
+  
+  // Other ways to drive the same stops, for the dispatcher to compare
+  if (options.alternatives) {
+    const routeKey = route.path.join('>');
+    const alternatives = combineLegAlternatives(
+      graph,
+      stopIds,
+      options.alternatives + 1,
+      options.objective,
+      options.preferences,
+      timeDependent ? departureTime : undefined
+    )
+      .map(alternativeLegs => ({ alternativeLegs, alternative: joinRoute(startId, alternativeLegs) }))
+      .filter(({ alternative }) => alternative.path.join('>') !== routeKey)
+      .slice(0, options.alternatives)
+      .map(({ alternativeLegs, alternative }) => {
+        const choice: Route = { ...alternative, stops: stopIds, mode, profile: options.profile };
+        if (route.schedule) {
+          choice.schedule = buildSchedule(
+            stopIds.map(id => graph.points[id]),
+            i => alternativeLegs[i].route.totalTime,
+            departureTime
+          );
+        }
+        const choiceConnections = alternativeLegs.flatMap(leg => leg.connections);
+        choice.cost = estimateRouteCost(choice, choiceConnections, options.costModel);
+        choice.emissions = estimateEmissions(choice, choiceConnections);
+        return choice;
+      });
+    if (alternatives.length > 0) route.alternatives = alternatives;
   }
   
-  return totalRoute;
+  return route;
 }
 
 // Sample graph data
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { findOptimalRoute, findShortestPath, Graph, Point, TimeWindow } from './routeOptimization';
+import { buildSchedule, totalLateness } from './schedule';
+import { createGridGraph, gridId } from '@/test/graphs';
+
+const depot: Point = { id: 'A', name: 'Depot', lat: 40.7, lng: -74 };
+const stop = (timeWindows: TimeWindow[]): Point => ({ id: 'B', name: 'Stop', lat: 40.71, lng: -74, timeWindows });
+
+const at = (hours: number, minutes = 0) => new Date(2024, 2, 4, hours, minutes).getTime();
+
+// The schedule of a drive from the depot to one stop, leaving at `departure`
+function arriveAt(point: Point, departure: number, driveMinutes: number) {
+  return buildSchedule([depot, point], () => driveMinutes, departure)[1];
+}
+
+describe('time windows', () => {
+  it('make an early arrival wait for them to open', () => {
+    const arrival = arriveAt(stop([{ start: 9 * 60, end: 11 * 60 }]), at(8), 30);
+    expect(arrival.wait).toBe(30);
+    expect(arrival.departure).toBe(at(9));
+    expect(arrival.windowMissed).toBe(false);
+  });
+
+  it('report how late an arrival after the last window is', () => {
+    const arrival = arriveAt(stop([{ start: 9 * 60, end: 11 * 60 }]), at(11), 20);
+    expect(arrival.windowMissed).toBe(true);
+    expect(arrival.lateBy).toBe(20);
+  });
+
+  it('fit an arrival between two windows into the later one', () => {
+    const arrival = arriveAt(stop([{ start: 14 * 60, end: 16 * 60 }, { start: 9 * 60, end: 11 * 60 }]), at(11), 30);
+    expect(arrival.departure).toBe(at(14));
+    expect(arrival.windowMissed).toBe(false);
+  });
+
+  it('hold the vehicle for the service time after the wait', () => {
+    const point = { ...stop([{ start: 9 * 60, end: 11 * 60 }]), serviceDuration: 15 };
+    const [, first, second] = buildSchedule([depot, point, depot], () => 30, at(8));
+
+    expect(first.departure).toBe(at(9, 15));
+    expect(second.arrival).toBe(at(9, 45));
+  });
+
+  it('reorder the stops of a route so that none is late', () => {
+    // Without windows the stop behind the depot comes first; the far one
+    // closes too soon after the departure for that detour
+    const grid = createGridGraph(10);
+    const departure = at(8);
+    const toFar = findShortestPath(grid, gridId(1, 1), gridId(9, 9), 'fastest')!.totalTime;
+    const graph: Graph = {
+      ...grid,
+      points: {
+        ...grid.points,
+        [gridId(9, 9)]: { ...grid.points[gridId(9, 9)], timeWindows: [{ start: 8 * 60, end: 8 * 60 + toFar + 0.1 }] }
+      }
+    };
+    const options = { objective: 'fastest' as const, departureTime: departure };
+
+    expect(findOptimalRoute(grid, gridId(1, 1), [gridId(0, 0), gridId(9, 9)], options)!.stops?.[1]).toBe(gridId(0, 0));
+
+    const route = findOptimalRoute(graph, gridId(1, 1), [gridId(0, 0), gridId(9, 9)], options)!;
+    expect(route.stops?.[1]).toBe(gridId(9, 9));
+    expect(totalLateness(route.schedule!)).toBe(0);
+  });
+});
+
+describe('overnight windows', () => {
+  const overnight = stop([{ start: 22 * 60, end: 2 * 60 }]);
+
+  it('are open before midnight', () => {
+    const arrival = arriveAt(overnight, at(22, 30), 30);
+    expect(arrival.arrival).toBe(at(23));
+    expect(arrival.wait).toBe(0);
+    expect(arrival.lateBy).toBe(0);
+  });
+
+  it('are still open after midnight', () => {
+    const arrival = arriveAt(overnight, at(0, 30), 30);
+    expect(arrival.wait).toBe(0);
+    expect(arrival.lateBy).toBe(0);
+  });
+
+  it('make an evening arrival wait for them to open', () => {
+    const arrival = arriveAt(overnight, at(20), 60);
+    expect(arrival.wait).toBe(60);
+    expect(arrival.departure).toBe(at(22));
+  });
+
+  it('open again in the evening after they close in the morning', () => {
+    const arrival = arriveAt(overnight, at(2, 30), 30);
+    expect(arrival.windowMissed).toBe(false);
+    expect(arrival.departure).toBe(at(22));
+  });
+});
@@ -0,0 +1,97 @@
+import type { Point, TimeWindow } from './routeOptimization';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// Arrival, wait and departure at one stop of a route
+export interface ScheduledStop {
+  pointId: string;
+  arrival: number; // epoch ms
+  departure: number; // epoch ms, after waiting and service
+  wait: number; // minutes spent waiting for the window to open
+  lateBy: number; // minutes past the end of the last usable window
+  windowMissed: boolean;
+}
+
+function minutesSinceMidnight(timestamp: number, dayStart: number): number {
+  return (timestamp - dayStart) / MINUTE_MS;
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Earliest time (in minutes after the departure day's midnight) at which
+// service can start, and how late that is if every window has closed.
+// Windows repeat daily so routes that run past midnight still line up, but
+// a stop is never held over to the next day's window. A window that ends
+// before it starts runs overnight, so the previous day's may still be open.
+function fitToWindows(
+  windows: TimeWindow[] | undefined,
+  arrivalMinute: number
+): { start: number; lateBy: number } {
+  if (!windows || windows.length === 0) return { start: arrivalMinute, lateBy: 0 };
+
+  const day = Math.floor(arrivalMinute / DAY_MINUTES);
+  let lastEnd = -Infinity;
+
+  // The windows opening on the day before the arrival and on the arrival day, in order
+  const occurrences = [day - 1, day]
+    .flatMap(d => windows.map(w => ({
+      start: w.start + d * DAY_MINUTES,
+      end: w.end + (w.end < w.start ? d + 1 : d) * DAY_MINUTES
+    })))
+    .sort((a, b) => a.start - b.start);
+
+  for (const window of occurrences) {
+    if (arrivalMinute <= window.end) {
+      return { start: Math.max(arrivalMinute, window.start), lateBy: 0 };
+    }
+    lastEnd = Math.max(lastEnd, window.end);
+  }
+
+  return { start: arrivalMinute, lateBy: arrivalMinute - lastEnd };
+}
+
+// Minutes to drive from stops[index] to stops[index + 1] when leaving at
+// `departure` (epoch ms)
+export type LegTime = (index: number, departure: number) => number;
+
+// Walk the stops in order, waiting for windows to open and adding service time
+export function buildSchedule(
+  stops: Point[],
+  legTime: LegTime,
+  departureTime: number
+): ScheduledStop[] {
+  const dayStart = startOfDay(departureTime);
+  const schedule: ScheduledStop[] = [];
+  let clock = minutesSinceMidnight(departureTime, dayStart);
+
+  stops.forEach((point, index) => {
+    if (index > 0) clock += legTime(index - 1, dayStart + clock * MINUTE_MS);
+
+    const arrival = clock;
+    const isStart = index === 0;
+    const { start, lateBy } = isStart ? { start: arrival, lateBy: 0 } : fitToWindows(point.timeWindows, arrival);
+    const departure = start + (isStart ? 0 : point.serviceDuration ?? 0);
+
+    schedule.push({
+      pointId: point.id,
+      arrival: dayStart + arrival * MINUTE_MS,
+      departure: dayStart + departure * MINUTE_MS,
+      wait: start - arrival,
+      lateBy,
+      windowMissed: lateBy > 0
+    });
+
+    clock = departure;
+  });
+
+  return schedule;
+}
+
+export function totalLateness(schedule: ScheduledStop[]): number {
+  return schedule.reduce((sum, stop) => sum + stop.lateBy, 0);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Graph, sampleGraph } from './routeOptimization';
+import { decodeShareHash, encodeShareHash, fromSharedFile, SharedWorkspace, toSharedFile } from './shareLink';
+import { createRushHourProfile } from './travelTime';
+
+const rushHour = createRushHourProfile();
+const graph: Graph = {
+  ...sampleGraph,
+  connections: sampleGraph.connections.map((conn, index) => (index % 2 ? { ...conn, speedProfile: rushHour.id } : conn)),
+  speedProfiles: { [rushHour.id]: rushHour },
+  turns: { leftTurnPenalty: 0.5, banned: [{ from: 'A', via: 'B', to: 'C' }] }
+};
+
+const workspace: SharedWorkspace = {
+  graph,
+  destinations: ['D', 'B', 'Y'],
+  request: { startId: 'A', options: { objective: 'fastest', departureTime: new Date(2024, 2, 4, 8, 0).getTime() } },
+  order: { stops: ['A', 'Y', 'D', 'B'], strategy: 'local-search' }
+};
+
+// The file form of a workspace with one part of it replaced
+const fileWith = (changes: Record<string, unknown>) => JSON.stringify({ ...JSON.parse(toSharedFile(workspace)), ...changes });
+
+describe('shared plans', () => {
+  it('keep speed profiles, turn rules and the route order through a link', async () => {
+    const shared = await decodeShareHash(await encodeShareHash(workspace));
+
+    expect(shared?.graph.speedProfiles).toEqual(graph.speedProfiles);
+    expect(shared?.graph.turns).toEqual(graph.turns);
+    expect(shared?.graph.connections.map(conn => conn.speedProfile)).toEqual(graph.connections.map(conn => conn.speedProfile));
+    expect(shared?.order).toEqual(workspace.order);
+    expect(shared?.request).toEqual(workspace.request);
+  });
+
+  it('keep them through a file', () => {
+    const shared = fromSharedFile(toSharedFile(workspace));
+
+    expect(shared.graph.speedProfiles).toEqual(graph.speedProfiles);
+    expect(shared.graph.turns).toEqual(graph.turns);
+    expect(shared.order).toEqual(workspace.order);
+  });
+
+  it('write the route summary to files but not links', async () => {
+    const summary = {
+      path: ['A', 'Y', 'C', 'D', 'C', 'B'],
+      totalDistance: 3.5,
+      totalTime: 29,
+      cost: { currency: 'EUR', fuel: 0.38, tolls: 2, wage: 12.08, total: 14.46 },
+      emissions: { legs: [0.1, 0.2, 0.15, 0.15, 0.2], total: 0.8 }
+    };
+    const withSummary = { ...workspace, summary };
+
+    expect(JSON.parse(toSharedFile(withSummary)).summary).toEqual(summary);
+    expect(JSON.parse(toSharedFile({ ...withSummary, request: null })).summary).toBeUndefined();
+    expect(fromSharedFile(toSharedFile(withSummary)).request).toEqual(workspace.request);
+
+    const link = await encodeShareHash(withSummary);
+    expect(link).toBe(await encodeShareHash(workspace));
+  });
+
+  it('drop the route order without a route', () => {
+    expect(fromSharedFile(toSharedFile({ ...workspace, request: null })).order).toBeUndefined();
+  });
+
+  it('refuse speed profiles that are malformed or missing', () => {
+    const broken = { ...rushHour, factors: rushHour.factors.slice(1) };
+    expect(() => fromSharedFile(fileWith({ speedProfiles: { [rushHour.id]: broken } }))).toThrow('invalid speed profile');
+    expect(() => fromSharedFile(fileWith({ speedProfiles: { other: rushHour } }))).toThrow('invalid speed profile');
+    expect(() => fromSharedFile(fileWith({ speedProfiles: {} }))).toThrow('invalid connection');
+  });
+
+  it('keep zones to their known fields', () => {
+    const zone = {
+      id: 'z1',
+      name: 'Market',
+      polygon: [{ lat: 40.71, lng: -74.01 }, { lat: 40.72, lng: -74.01 }, { lat: 40.72, lng: -74, extra: 1 }],
+      enabled: true,
+      penalty: 3,
+      onclick: 'alert(1)'
+    };
+    const shared = fromSharedFile(fileWith({ zones: [zone] }));
+
+    expect(shared.graph.zones).toEqual([{
+      id: 'z1',
+      name: 'Market',
+      polygon: [{ lat: 40.71, lng: -74.01 }, { lat: 40.72, lng: -74.01 }, { lat: 40.72, lng: -74 }],
+      enabled: true,
+      penalty: 3
+    }]);
+  });
+
+  it('refuse zones without an area, with a penalty below 1 or with a repeated id', () => {
+    const zone = {
+      id: 'z1',
+      name: 'Market',
+      polygon: [{ lat: 40.71, lng: -74.01 }, { lat: 40.72, lng: -74.01 }, { lat: 40.72, lng: -74 }],
+      enabled: true
+    };
+
+    expect(() => fromSharedFile(fileWith({ zones: [{ ...zone, polygon: zone.polygon.slice(0, 2) }] }))).toThrow('invalid zone');
+    expect(() => fromSharedFile(fileWith({ zones: [{ ...zone, penalty: 0.5 }] }))).toThrow('invalid zone');
+    expect(() => fromSharedFile(fileWith({ zones: [zone, zone] }))).toThrow('invalid zone');
+  });
+
+  it('refuse turn rules and orders with unknown points', () => {
+    expect(() => fromSharedFile(fileWith({ turns: { banned: [{ from: 'A', via: 'Q', to: 'C' }] } }))).toThrow('invalid turn rule');
+    expect(() => fromSharedFile(fileWith({ turns: { uTurnPenalty: -1 } }))).toThrow('invalid turn rule');
+    expect(() => fromSharedFile(fileWith({ order: { stops: ['A', 'constructor'] } }))).toThrow('invalid route order');
+    expect(() => fromSharedFile(fileWith({ order: { stops: ['A'], strategy: 'guess' } }))).toThrow('invalid route order');
+  });
+});
@@ -0,0 +1,432 @@
+import type {
+  Connection,
+  ConnectionType,
+  CostFunction,
+  Graph,
+  Point,
+  RouteMode,
+  RouteObjective,
+  Route,
+  RouteOptions,
+  RouteStrategy
+} from './routeOptimization';
+import type { AvoidZone } from './avoidance';
+import type { RoadClass, Surface } from './roadAttributes';
+import type { TurnRules } from './turns';
+import { createMoneyCost, DEFAULT_COST_MODEL } from './routeCost';
+import { TRAVEL_PROFILES } from './travelModes';
+import { BUCKETS_PER_DAY, SpeedProfile } from './travelTime';
+import { createEmptyGraph } from './planStore';
+
+// The start and settings a route was calculated with, enough to calculate it again
+export interface RouteRequest {
+  startId: string;
+  options: RouteOptions;
+}
+
+// The order a route visits its stops in (Route.stops) and how it was found,
+// so the route opens as it was sent rather than as the local search on the
+// receiving device happens to order it
+export interface SharedOrder {
+  stops: string[];
+  strategy?: RouteStrategy;
+}
+
+// The route's totals as calculated when it was shared, for whoever reads the
+// file; opening the plan calculates the route again
+export type RouteSummary = Pick<Route, 'path' | 'totalDistance' | 'totalTime' | 'cost' | 'emissions'>;
+
+// Everything a colleague needs to see the same stops and route
+export interface SharedWorkspace {
+  graph: Graph;
+  destinations: string[];
+  request: RouteRequest | null;
+  order?: SharedOrder;
+  summary?: RouteSummary; // written to files only, to keep links short
+}
+
+// Bump when the payload changes shape; older links are refused rather than misread
+export const SHARE_VERSION = 1;
+export const SHARE_HASH_PREFIX = '#share=';
+
+// Chat apps and some browsers cut off or refuse links much longer than this
+export const MAX_LINK_LENGTH = 8000;
+
+// ~0.1 m, far finer than a click on the map
+const COORDINATE_DIGITS = 6;
+
+// Points and connections are written as arrays to keep repeated keys out of
+// the link; connections refer to points by their position in the point list
+type CompactPoint = [string, string, number, number, Partial<Point>?];
+type CompactConnection = [number, number, number, number, Partial<Connection>?];
+
+// The only cost function the route form builds is the money cost, which is
+// rebuilt from the options' cost model and travel mode
+type SharedObjective = Exclude<RouteObjective, CostFunction> | 'cheapest';
+
+interface SharedPayload {
+  points: CompactPoint[];
+  connections: CompactConnection[];
+  zones?: AvoidZone[];
+  speedProfiles?: Record<string, SpeedProfile>;
+  turns?: TurnRules;
+  destinations: string[];
+  request?: { startId: string; options: Omit<RouteOptions, 'objective'> & { objective?: SharedObjective } };
+  order?: SharedOrder;
+}
+
+interface SharedFile extends SharedPayload {
+  version: number;
+  summary?: RouteSummary;
+}
+
+const round = (value: number) => Number(value.toFixed(COORDINATE_DIGITS));
+
+// The route form offers at most this many alternatives
+const MAX_ALTERNATIVES = 3;
+
+const CONNECTION_TYPES: ConnectionType[] = ['motorway', 'road', 'cycleway', 'footpath'];
+const ROAD_CLASSES: RoadClass[] = ['primary', 'secondary', 'residential', 'service'];
+const SURFACES: Surface[] = ['paved', 'gravel', 'unpaved'];
+const OBJECTIVES: SharedObjective[] = ['shortest', 'fastest', 'balanced', 'eco', 'cheapest'];
+const MODES: RouteMode[] = ['open', 'round-trip', 'fixed-end'];
+const STRATEGIES: RouteStrategy[] = ['direct', 'held-karp', 'greedy', 'local-search', 'given'];
+
+// Links and files can be written by anyone, so every decoded value is checked
+// before it reaches the map or the solver, and unknown keys are dropped
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isNonNegative: Check = value => isNumber(value) && (value as number) >= 0;
+const isInRange = (min: number, max: number): Check => value => isNumber(value) && (value as number) >= min && (value as number) <= max;
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const shaped = (checks: Record<string, Check>, required: string[] = []): Check => value =>
+  isRecord(value) &&
+  required.every(key => value[key] !== undefined) &&
+  Object.entries(checks).every(([key, check]) => value[key] === undefined || check(value[key]));
+
+const invalid = (what: string) => new Error(`The shared plan has an invalid ${what}.`);
+
+// The checked fields of an object, without any others
+function pick<T>(value: unknown, checks: Record<string, Check>, what: string): Partial<T> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw invalid(what);
+
+  const picked: Record<string, unknown> = {};
+  Object.entries(checks).forEach(([key, check]) => {
+    if (value[key] === undefined) return;
+    if (!check(value[key])) throw invalid(what);
+    picked[key] = value[key];
+  });
+  return picked as Partial<T>;
+}
+
+const POINT_CHECKS: Record<string, Check> = {
+  timeWindows: arrayOf(shaped({ start: isNumber, end: isNumber }, ['start', 'end'])),
+  serviceDuration: isNonNegative,
+  demand: isNonNegative
+};
+
+const CONNECTION_CHECKS: Record<string, Check> = {
+  manualTime: isBoolean,
+  oneWay: isBoolean,
+  speedProfile: isString,
+  type: oneOf(CONNECTION_TYPES),
+  maxHeight: isNonNegative,
+  maxWeight: isNonNegative,
+  roadClass: oneOf(ROAD_CLASSES),
+  speedLimit: isNonNegative,
+  toll: isBoolean,
+  tollCost: isNonNegative,
+  surface: oneOf(SURFACES),
+  restricted: isBoolean
+};
+
+const isLatLng = shaped({ lat: isInRange(-90, 90), lng: isInRange(-180, 180) }, ['lat', 'lng']);
+
+// Zones need an area to draw, and a penalty only ever makes a zone dearer: one
+// below 1 would let A* overestimate what is left of a route
+const isZone = shaped(
+  {
+    id: isString,
+    name: isString,
+    polygon: value => arrayOf(isLatLng)(value) && (value as unknown[]).length >= 3,
+    enabled: isBoolean,
+    penalty: value => isNumber(value) && (value as number) >= 1
+  },
+  ['id', 'name', 'polygon', 'enabled']
+);
+
+// Zones rebuilt from their checked fields, with ids unique
+function readZones(value: unknown): AvoidZone[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw invalid('zone');
+
+  const ids = new Set<string>();
+  return value.map(zone => {
+    if (!isZone(zone) || ids.has((zone as AvoidZone).id)) throw invalid('zone');
+    const { id, name, polygon, enabled, penalty } = zone as AvoidZone;
+    ids.add(id);
+
+    const checked: AvoidZone = { id, name, polygon: polygon.map(({ lat, lng }) => ({ lat, lng })), enabled };
+    if (penalty !== undefined) checked.penalty = penalty;
+    return checked;
+  });
+}
+
+// A factor for every 15 minutes of every weekday
+const isSpeedProfile = shaped(
+  {
+    id: isString,
+    name: isString,
+    factors: value =>
+      Array.isArray(value) &&
+      value.length === 7 &&
+      value.every(day => Array.isArray(day) && day.length === BUCKETS_PER_DAY && day.every(isNonNegative))
+  },
+  ['id', 'name', 'factors']
+);
+
+// Links made before speed profiles were shared get the ones a new plan starts with
+function readSpeedProfiles(value: unknown): Record<string, SpeedProfile> {
+  if (value === undefined) return createEmptyGraph().speedProfiles ?? {};
+  if (!isRecord(value)) throw invalid('speed profile');
+
+  const profiles: Record<string, SpeedProfile> = {};
+  Object.entries(value).forEach(([id, profile]) => {
+    if (id === '__proto__' || !isSpeedProfile(profile) || (profile as SpeedProfile).id !== id) {
+      throw invalid('speed profile');
+    }
+    const { name, factors } = profile as SpeedProfile;
+    profiles[id] = { id, name, factors };
+  });
+  return profiles;
+}
+
+// Optional attributes only, so plain points and connections stay short
+const extras = <T extends object>(value: T, keys: (keyof T)[]): Partial<T> | undefined => {
+  const rest = { ...value };
+  keys.forEach(key => delete rest[key]);
+  return Object.keys(rest).length > 0 ? rest : undefined;
+};
+
+function toPayload({ graph, destinations, request, order }: SharedWorkspace): SharedPayload {
+  const ids = Object.keys(graph.points);
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  const payload: SharedPayload = {
+    points: ids.map(id => {
+      const point = graph.points[id];
+      const rest = extras(point, ['id', 'name', 'lat', 'lng']);
+      return rest
+        ? [id, point.name, round(point.lat), round(point.lng), rest]
+        : [id, point.name, round(point.lat), round(point.lng)];
+    }),
+    connections: graph.connections
+      .filter(conn => index.has(conn.from) && index.has(conn.to))
+      .map(conn => {
+        const from = index.get(conn.from);
+        const to = index.get(conn.to);
+        const rest = extras(conn, ['from', 'to', 'distance', 'time']);
+        return rest ? [from, to, conn.distance, conn.time, rest] : [from, to, conn.distance, conn.time];
+      }),
+    destinations
+  };
+
+  if (graph.zones?.length) payload.zones = graph.zones;
+  if (graph.speedProfiles && Object.keys(graph.speedProfiles).length > 0) payload.speedProfiles = graph.speedProfiles;
+  if (graph.turns) payload.turns = graph.turns;
+  if (request) {
+    const { objective, ...options } = request.options;
+    payload.request = {
+      startId: request.startId,
+      options: { ...options, objective: typeof objective === 'function' ? 'cheapest' : objective }
+    };
+    if (order) payload.order = order;
+  }
+  return payload;
+}
+
+function fromPayload(payload: unknown): SharedWorkspace {
+  if (!isRecord(payload) || !Array.isArray(payload.points) || !Array.isArray(payload.connections)) {
+    throw new Error('The shared plan is incomplete.');
+  }
+
+  const points: Graph['points'] = {};
+  // Own ids only, so names like "constructor" are not taken for points
+  const isKnownId: Check = value => typeof value === 'string' && Object.prototype.hasOwnProperty.call(points, value);
+
+  const ids: string[] = payload.points.map((entry: unknown) => {
+    if (!Array.isArray(entry)) throw invalid('point');
+    const [id, name, lat, lng, rest] = entry;
+    if (typeof id !== 'string' || !id || id === '__proto__' || isKnownId(id) || typeof name !== 'string') {
+      throw invalid('point');
+    }
+    if (!isInRange(-90, 90)(lat) || !isInRange(-180, 180)(lng)) throw invalid(`location for ${id}`);
+
+    points[id] = { ...pick<Point>(rest, POINT_CHECKS, `point ${id}`), id, name, lat, lng };
+    return id;
+  });
+  const isRef = shaped({ from: isKnownId, to: isKnownId }, ['from', 'to']);
+  const speedProfiles = readSpeedProfiles(payload.speedProfiles);
+
+  const connections: Connection[] = payload.connections.map((entry: unknown) => {
+    if (!Array.isArray(entry)) throw invalid('connection');
+    const [from, to, distance, time, rest] = entry;
+    if (!isKnownId(ids[from]) || !isKnownId(ids[to]) || !isNonNegative(distance) || !isNonNegative(time)) {
+      throw invalid('connection');
+    }
+    const connection = { ...pick<Connection>(rest, CONNECTION_CHECKS, 'connection'), from: ids[from], to: ids[to], distance, time };
+    if (connection.speedProfile !== undefined && !Object.prototype.hasOwnProperty.call(speedProfiles, connection.speedProfile)) {
+      throw invalid('connection');
+    }
+    return connection;
+  });
+
+  const turns = payload.turns === undefined ? undefined : pick<TurnRules>(payload.turns, {
+    leftTurnPenalty: isNonNegative,
+    uTurnPenalty: isNonNegative,
+    banned: arrayOf(shaped({ from: isKnownId, via: isKnownId, to: isKnownId }, ['from', 'via', 'to']))
+  }, 'turn rule');
+
+  const zones = readZones(payload.zones);
+  if (!arrayOf(isKnownId)(payload.destinations ?? [])) throw invalid('destination');
+
+  let request: RouteRequest | null = null;
+  if (payload.request !== undefined) {
+    if (!isRecord(payload.request) || !isKnownId(payload.request.startId)) throw invalid('starting point');
+
+    const { objective, ...options } = pick<SharedPayload['request']['options']>(payload.request.options, {
+      objective: oneOf(OBJECTIVES),
+      mode: oneOf(MODES),
+      endId: isKnownId,
+      departureTime: isNumber,
+      capacity: isNonNegative,
+      pairs: arrayOf(shaped(
+        { id: isString, pickupId: isKnownId, deliveryId: isKnownId, quantity: isNonNegative },
+        ['id', 'pickupId', 'deliveryId']
+      )),
+      alternatives: value => Number.isInteger(value) && isInRange(0, MAX_ALTERNATIVES)(value),
+      avoid: shaped({
+        points: arrayOf(isKnownId),
+        connections: arrayOf(isRef),
+        closures: arrayOf(value => isRef(value) && shaped({ start: isNumber, end: isNumber }, ['start', 'end'])(value))
+      }),
+      profile: oneOf(Object.keys(TRAVEL_PROFILES)),
+      preferences: shaped({ avoidTolls: isBoolean, preferMainRoads: isBoolean, avoidUnpaved: isBoolean, allowRestricted: isBoolean }),
+      // Currencies go to Intl.NumberFormat, which throws on malformed codes
+      costModel: shaped(
+        { currency: value => isString(value) && /^[A-Z]{3}$/.test(value as string), fuelPrice: isNonNegative, hourlyWage: isNonNegative },
+        ['currency', 'fuelPrice', 'hourlyWage']
+      )
+    }, 'route setting');
+
+    request = {
+      startId: payload.request.startId as string,
+      options: {
+        ...options,
+        objective: objective === 'cheapest'
+          ? createMoneyCost(options.costModel ?? DEFAULT_COST_MODEL, options.profile)
+          : objective
+      }
+    };
+  }
+
+  // The order only means something for the route it came with
+  let order: SharedOrder | undefined;
+  if (payload.order !== undefined) {
+    const { stops, strategy } = pick<SharedOrder>(
+      payload.order,
+      { stops: arrayOf(isKnownId), strategy: oneOf(STRATEGIES) },
+      'route order'
+    );
+    if (!stops) throw invalid('route order');
+    if (request) order = strategy ? { stops, strategy } : { stops };
+  }
+
+  const graph: Graph = { points, connections, speedProfiles };
+  if (zones.length > 0) graph.zones = zones;
+  if (turns) graph.turns = turns;
+
+  return { graph, destinations: (payload.destinations as string[] | undefined) ?? [], request, order };
+}
+
+async function compress(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+// URL-safe base64 without padding
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function checkVersion(version: number) {
+  if (!Number.isInteger(version)) throw new Error('The shared plan is damaged or incomplete.');
+  if (version !== SHARE_VERSION) {
+    throw new Error(version > SHARE_VERSION
+      ? 'This plan was shared from a newer version of the app.'
+      : 'This plan was shared from an older version of the app and can no longer be opened.');
+  }
+}
+
+// "#share=<version>.<compressed payload>"
+export async function encodeShareHash(workspace: SharedWorkspace): Promise<string> {
+  const bytes = await compress(JSON.stringify(toPayload(workspace)));
+  return `${SHARE_HASH_PREFIX}${SHARE_VERSION}.${toBase64Url(bytes)}`;
+}
+
+// Null when the hash does not hold a shared plan
+export async function decodeShareHash(hash: string): Promise<SharedWorkspace | null> {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+
+  const [version, data = ''] = hash.slice(SHARE_HASH_PREFIX.length).split('.');
+  checkVersion(Number(version));
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await decompress(fromBase64Url(data)));
+  } catch (error) {
+    console.error('Could not read shared link:', error);
+    throw new Error('The link is damaged or incomplete. Ask for it to be shared again.');
+  }
+  return fromPayload(payload);
+}
+
+// The same plan as a readable file, for plans too large to share as a link
+export function toSharedFile(workspace: SharedWorkspace): string {
+  const file: SharedFile = { version: SHARE_VERSION, ...toPayload(workspace) };
+  if (workspace.request && workspace.summary) file.summary = workspace.summary;
+  return JSON.stringify(file);
+}
+
+export function fromSharedFile(text: string): SharedWorkspace {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not a shared route plan.');
+  }
+
+  checkVersion(isRecord(file) ? (file.version as number) : NaN);
+  return fromPayload(file);
+}
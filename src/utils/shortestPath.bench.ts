@@ -0,0 +1,97 @@
+import { bench, describe } from 'vitest';
+import { findShortestPath, Graph, Route } from './routeOptimization';
+import { createGridGraph, gridId } from '@/test/graphs';
+
+// 224 × 224 = 50,176 points, about 100,000 connections
+const SIDE = 224;
+const graph = createGridGraph(SIDE);
+
+// The search findShortestPath used before the binary heap: it rebuilds the
+// adjacency lists on every call and scans every point for the next one to settle
+function linearScanShortestPath(graph: Graph, startId: string, endId: string): Route | null {
+  const adjacencyList: Record<string, { id: string; distance: number; time: number }[]> = {};
+  Object.keys(graph.points).forEach(pointId => {
+    adjacencyList[pointId] = [];
+  });
+  graph.connections.forEach(conn => {
+    adjacencyList[conn.from].push({ id: conn.to, distance: conn.distance, time: conn.time });
+    adjacencyList[conn.to].push({ id: conn.from, distance: conn.distance, time: conn.time });
+  });
+
+  const distances: Record<string, number> = {};
+  const times: Record<string, number> = {};
+  const previous: Record<string, string | null> = {};
+  const visited = new Set<string>();
+  Object.keys(graph.points).forEach(pointId => {
+    distances[pointId] = Infinity;
+    times[pointId] = Infinity;
+    previous[pointId] = null;
+  });
+  distances[startId] = 0;
+  times[startId] = 0;
+
+  while (visited.size < Object.keys(graph.points).length) {
+    let current: string | null = null;
+    let shortestDistance = Infinity;
+    Object.keys(graph.points).forEach(pointId => {
+      if (!visited.has(pointId) && distances[pointId] < shortestDistance) {
+        shortestDistance = distances[pointId];
+        current = pointId;
+      }
+    });
+    if (current === null || current === endId) break;
+    visited.add(current);
+
+    adjacencyList[current].forEach(neighbor => {
+      if (visited.has(neighbor.id)) return;
+      const distance = distances[current] + neighbor.distance;
+      if (distance < distances[neighbor.id]) {
+        distances[neighbor.id] = distance;
+        times[neighbor.id] = times[current] + neighbor.time;
+        previous[neighbor.id] = current;
+      }
+    });
+  }
+
+  if (distances[endId] === Infinity) return null;
+  const path: string[] = [];
+  for (let current: string | null = endId; current !== null; current = previous[current]) path.unshift(current);
+  return { path, totalDistance: distances[endId], totalTime: times[endId] };
+}
+
+// The old search takes seconds per call even for a short trip, so it runs once
+const ONCE = { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 };
+
+// A trip of a dozen blocks: the old search stops early, but still scans all
+// 50k points for each of the few hundred it settles
+describe('short trip on a 50k-point grid', () => {
+  const start = gridId(100, 100);
+  const end = gridId(106, 106);
+
+  bench('linear scan (before)', () => {
+    linearScanShortestPath(graph, start, end);
+  }, ONCE);
+
+  bench('binary-heap Dijkstra', () => {
+    findShortestPath(graph, start, end, 'shortest', { algorithm: 'dijkstra' });
+  });
+
+  bench('A*', () => {
+    findShortestPath(graph, start, end);
+  });
+});
+
+// Corner to corner settles nearly every point, out of reach for the old
+// search, which would scan all 50k points 50k times
+describe('corner to corner on a 50k-point grid', () => {
+  const start = gridId(0, 0);
+  const end = gridId(SIDE - 1, SIDE - 1);
+
+  bench('binary-heap Dijkstra', () => {
+    findShortestPath(graph, start, end, 'shortest', { algorithm: 'dijkstra' });
+  });
+
+  bench('A*', () => {
+    findShortestPath(graph, start, end);
+  });
+});
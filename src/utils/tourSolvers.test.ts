@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CostMatrix,
+  improveTour,
+  Precedence,
+  respectsPrecedence,
+  solveHeldKarp,
+  solveNearestNeighbour,
+  tourCost
+} from './tourSolvers';
+import { buildCostMatrix } from './routeOptimization';
+import { createGridGraph, createRandom, gridId } from '@/test/graphs';
+
+// An asymmetric matrix with a few missing legs, the same on every run
+function randomMatrix(size: number, seed: number): CostMatrix {
+  const random = createRandom(seed);
+  return Array.from({ length: size }, (_, from) =>
+    Array.from({ length: size }, (_, to) => {
+      if (from === to) return 0;
+      return random() < 0.1 ? Infinity : 1 + random() * 20;
+    })
+  );
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+// Cost of the cheapest order, found by trying every one
+function bruteForceCost(cost: CostMatrix, fixedEnd: boolean, precedence: Precedence = []): number {
+  const endIndex = cost.length - 1;
+  const destinations = Array.from({ length: fixedEnd ? cost.length - 2 : cost.length - 1 }, (_, i) => i + 1);
+
+  return permutations(destinations)
+    .map(middle => (fixedEnd ? [0, ...middle, endIndex] : [0, ...middle]))
+    .filter(order => respectsPrecedence(order, precedence))
+    .reduce((best, order) => Math.min(best, tourCost(cost, order)), Infinity);
+}
+
+// Whether reversing any stretch of the movable stops would make the tour cheaper
+function hasImprovingReversal(cost: CostMatrix, order: number[], fixedEnd: boolean): boolean {
+  const lastMovable = fixedEnd ? order.length - 2 : order.length - 1;
+  const current = tourCost(cost, order);
+
+  for (let i = 1; i < lastMovable; i++) {
+    for (let j = i + 1; j <= lastMovable; j++) {
+      const reversed = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+      if (tourCost(cost, reversed) < current - 1e-9) return true;
+    }
+  }
+  return false;
+}
+
+describe('solveHeldKarp', () => {
+  const seeds = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  it.each(seeds)('matches brute force on an open route (seed %i)', seed => {
+    const cost = randomMatrix(7, seed);
+    const result = solveHeldKarp(cost);
+
+    expect(result!.cost).toBeCloseTo(bruteForceCost(cost, false), 9);
+    expect(tourCost(cost, result!.order)).toBeCloseTo(result!.cost, 9);
+  });
+
+  it.each(seeds)('matches brute force with a fixed end (seed %i)', seed => {
+    const cost = randomMatrix(8, seed);
+    const result = solveHeldKarp(cost, true);
+
+    expect(result!.cost).toBeCloseTo(bruteForceCost(cost, true), 9);
+    expect(result!.order.at(-1)).toBe(7);
+  });
+
+  it.each(seeds)('matches brute force with pickups before deliveries (seed %i)', seed => {
+    const cost = randomMatrix(7, seed);
+    const precedence: Precedence = [[4, 1], [2, 5]];
+    const result = solveHeldKarp(cost, false, precedence);
+
+    expect(result!.cost).toBeCloseTo(bruteForceCost(cost, false, precedence), 9);
+    expect(respectsPrecedence(result!.order, precedence)).toBe(true);
+  });
+
+  it('finds no order when the pairs contradict each other', () => {
+    expect(solveHeldKarp(randomMatrix(5, 1), false, [[1, 2], [2, 1]])).toBeNull();
+  });
+});
+
+describe('solveNearestNeighbour', () => {
+  it('never visits a delivery before its pickup', () => {
+    const cost = randomMatrix(9, 3).map(row => row.map(value => (value === Infinity ? 50 : value)));
+    const precedence: Precedence = [[5, 1], [6, 2], [8, 3]];
+    const result = solveNearestNeighbour(cost, false, precedence);
+
+    expect(result.order).toHaveLength(9);
+    expect(respectsPrecedence(result.order, precedence)).toBe(true);
+  });
+
+  it('leaves out destinations it cannot reach', () => {
+    const cost = randomMatrix(5, 1).map(row => row.map(value => (value === Infinity ? 1 : value)));
+    cost.forEach((row, from) => { if (from !== 4) row[4] = Infinity; });
+
+    expect(solveNearestNeighbour(cost).order).not.toContain(4);
+  });
+});
+
+describe('improveTour', () => {
+  // Street distances between grid points, so the triangle inequality holds
+  const grid = createGridGraph(8, createRandom(2));
+  const random = createRandom(9);
+  const pointIds = Array.from(new Set(Array.from({ length: 14 }, () => gridId(Math.floor(random() * 8), Math.floor(random() * 8)))));
+  const cost = buildCostMatrix(grid, pointIds, 'shortest');
+
+  it.each([false, true])('never makes the greedy tour worse and leaves no improving 2-opt move (fixed end: %s)', fixedEnd => {
+    const greedy = solveNearestNeighbour(cost, fixedEnd);
+    const improved = improveTour(cost, greedy.order, { fixedEnd });
+
+    expect(improved.cost).toBeLessThanOrEqual(greedy.cost + 1e-9);
+    expect(new Set(improved.order)).toEqual(new Set(greedy.order));
+    expect(improved.order[0]).toBe(0);
+    if (fixedEnd) expect(improved.order.at(-1)).toBe(pointIds.length - 1);
+    expect(hasImprovingReversal(cost, improved.order, fixedEnd)).toBe(false);
+  });
+
+  // Points on a line at 0, 1, 2, 3 and 4
+  const line: CostMatrix = Array.from({ length: 5 }, (_, from) =>
+    Array.from({ length: 5 }, (_, to) => Math.abs(from - to))
+  );
+
+  it('uncrosses a tour with 2-opt', () => {
+    // Four corners of a square visited crosswise: 0 → 2 → 1 → 3
+    const square: CostMatrix = [
+      [0, 1, 1.5, 1],
+      [1, 0, 1, 1.5],
+      [1.5, 1, 0, 1],
+      [1, 1.5, 1, 0]
+    ];
+    const improved = improveTour(square, [0, 2, 1, 3]);
+
+    expect(improved.cost).toBe(3);
+    expect(improved.iterations).toBeGreaterThan(0);
+  });
+
+  it('moves a stop stranded at the end of the tour back into place', () => {
+    const improved = improveTour(line, [0, 2, 3, 4, 1]);
+
+    expect(improved.order).toEqual([0, 1, 2, 3, 4]);
+    expect(improved.cost).toBe(4);
+  });
+
+  it('keeps a fixed end in place', () => {
+    const improved = improveTour(line, [0, 3, 1, 2, 4], { fixedEnd: true });
+
+    expect(improved.order).toEqual([0, 1, 2, 3, 4]);
+  });
+});
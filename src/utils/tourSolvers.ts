@@ -0,0 +1,331 @@
+// Stop-ordering solvers that work on a precomputed cost matrix.
+// Index 0 is always the starting point; the other indices are destinations.
+// With `fixedEnd` the last index is a required final stop instead of a
+// destination (the depot again for round trips).
+export type CostMatrix = number[][];
+
+export interface TourResult {
+  order: number[]; // matrix indices, starting with 0
+  cost: number;
+}
+
+// [before, after] matrix index pairs: `before` must be visited earlier in the order
+export type Precedence = [number, number][];
+
+// Whether every constrained pair appears in the required order
+export function respectsPrecedence(order: number[], precedence: Precedence): boolean {
+  if (precedence.length === 0) return true;
+
+  const position = new Map(order.map((index, i) => [index, i]));
+  return precedence.every(([before, after]) =>
+    position.has(before) && position.has(after) && position.get(before)! < position.get(after)!
+  );
+}
+
+// Held-Karp dynamic programming: exact ordering in O(2^n * n^2).
+// Returns null if no ordering reaches every destination in the required order.
+export function solveHeldKarp(
+  cost: CostMatrix,
+  fixedEnd = false,
+  precedence: Precedence = []
+): TourResult | null {
+  const endIndex = cost.length - 1;
+  const stops = fixedEnd ? cost.length - 2 : cost.length - 1;
+  if (stops <= 0) {
+    return fixedEnd
+      ? (cost[0][endIndex] === Infinity ? null : { order: [0, endIndex], cost: cost[0][endIndex] })
+      : { order: [0], cost: 0 };
+  }
+
+  const fullMask = (1 << stops) - 1;
+  const best = new Float64Array((fullMask + 1) * stops).fill(Infinity);
+  const parent = new Int8Array((fullMask + 1) * stops).fill(-1);
+
+  // Stops that must already be visited before each stop can be entered
+  const required = new Int32Array(stops);
+  precedence.forEach(([before, after]) => {
+    required[after - 1] |= 1 << (before - 1);
+  });
+
+  // Base case: leg from the start straight to each destination
+  for (let j = 0; j < stops; j++) {
+    if (required[j] === 0) best[(1 << j) * stops + j] = cost[0][j + 1];
+  }
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let last = 0; last < stops; last++) {
+      if (!(mask & (1 << last))) continue;
+
+      const current = best[mask * stops + last];
+      if (current === Infinity) continue;
+
+      for (let next = 0; next < stops; next++) {
+        if (mask & (1 << next)) continue;
+        if ((required[next] & mask) !== required[next]) continue;
+
+        const nextMask = mask | (1 << next);
+        const candidate = current + cost[last + 1][next + 1];
+        if (candidate < best[nextMask * stops + next]) {
+          best[nextMask * stops + next] = candidate;
+          parent[nextMask * stops + next] = last;
+        }
+      }
+    }
+  }
+
+  // Pick the cheapest final stop, including the leg to a fixed end
+  let bestLast = -1;
+  let bestCost = Infinity;
+  for (let last = 0; last < stops; last++) {
+    const total = best[fullMask * stops + last] + (fixedEnd ? cost[last + 1][endIndex] : 0);
+    if (total < bestCost) {
+      bestCost = total;
+      bestLast = last;
+    }
+  }
+
+  if (bestLast === -1) return null;
+
+  // Walk the parent pointers back to the start
+  const order: number[] = [];
+  let mask = fullMask;
+  let last = bestLast;
+  while (last !== -1) {
+    order.push(last + 1);
+    const previous = parent[mask * stops + last];
+    mask &= ~(1 << last);
+    last = previous;
+  }
+  order.push(0);
+  order.reverse();
+  if (fixedEnd) order.push(endIndex);
+
+  return { order, cost: bestCost };
+}
+
+// Greedy nearest-neighbour ordering. Destinations that cannot be reached
+// from the current stop (or whose predecessors never get visited) are left
+// out of the order; an unreachable fixed end makes the cost Infinity.
+export function solveNearestNeighbour(
+  cost: CostMatrix,
+  fixedEnd = false,
+  precedence: Precedence = []
+): TourResult {
+  const endIndex = cost.length - 1;
+  const order = [0];
+  const remaining = new Set<number>();
+  for (let i = 1; i < cost.length; i++) {
+    if (!(fixedEnd && i === endIndex)) remaining.add(i);
+  }
+
+  let current = 0;
+  let total = 0;
+
+  const isAvailable = (candidate: number) =>
+    precedence.every(([before, after]) => after !== candidate || !remaining.has(before));
+
+  while (remaining.size > 0) {
+    let nearest = -1;
+    let nearestCost = Infinity;
+
+    remaining.forEach(candidate => {
+      if (cost[current][candidate] < nearestCost && isAvailable(candidate)) {
+        nearestCost = cost[current][candidate];
+        nearest = candidate;
+      }
+    });
+
+    // No reachable destination left
+    if (nearest === -1) break;
+
+    order.push(nearest);
+    total += nearestCost;
+    remaining.delete(nearest);
+    current = nearest;
+  }
+
+  if (fixedEnd) {
+    order.push(endIndex);
+    total += cost[current][endIndex];
+  }
+
+  return { order, cost: total };
+}
+
+export function tourCost(cost: CostMatrix, order: number[]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += cost[order[i - 1]][order[i]];
+  }
+  return total;
+}
+
+export interface LocalSearchOptions {
+  maxIterations?: number; // improving moves to apply before stopping
+  timeLimitMs?: number;
+  fixedEnd?: boolean; // keep the last stop in place
+}
+
+export interface LocalSearchResult extends TourResult {
+  iterations: number;
+}
+
+// Smallest cost change that counts as an improvement (guards float noise)
+const IMPROVEMENT_EPSILON = 1e-9;
+
+// Local search over a path whose first (and optionally last) stop is fixed. Applies the first
+// improving 2-opt or Or-opt move found (Or-opt with one stop is a relocate)
+// until no move helps or the iteration/time budget runs out.
+// The cost matrix may be asymmetric.
+export function improveTour(
+  cost: CostMatrix,
+  initialOrder: number[],
+  { maxIterations = 1000, timeLimitMs = 2000, fixedEnd = false }: LocalSearchOptions = {}
+): LocalSearchResult {
+  const order = [...initialOrder];
+  // Moves may only touch positions 1..lastMovable
+  const lastMovable = fixedEnd ? order.length - 2 : order.length - 1;
+  const deadline = performance.now() + timeLimitMs;
+  let iterations = 0;
+
+  const edge = (from: number, to: number | undefined) =>
+    to === undefined ? 0 : cost[from][to];
+
+  while (iterations < maxIterations && performance.now() < deadline) {
+    if (
+      !applyTwoOptMove(order, edge, lastMovable) &&
+      !applyOrOptMove(order, edge, lastMovable)
+    ) break;
+    iterations++;
+  }
+
+  return { order, cost: tourCost(cost, order), iterations };
+}
+
+type EdgeCost = (from: number, to: number | undefined) => number;
+
+// Reverse order[i..j]. Prefix sums of forward and backward leg costs let us
+// price the reversed segment in O(1) even when the matrix is asymmetric.
+function applyTwoOptMove(order: number[], edge: EdgeCost, lastMovable: number): boolean {
+  const n = order.length;
+  const forward = new Float64Array(n);
+  const backward = new Float64Array(n);
+  for (let k = 1; k < n; k++) {
+    forward[k] = forward[k - 1] + edge(order[k - 1], order[k]);
+    backward[k] = backward[k - 1] + edge(order[k], order[k - 1]);
+  }
+
+  for (let i = 1; i < lastMovable; i++) {
+    for (let j = i + 1; j <= lastMovable; j++) {
+      const before = order[i - 1];
+      const after = order[j + 1];
+
+      const currentCost =
+        edge(before, order[i]) + (forward[j] - forward[i]) + edge(order[j], after);
+      const reversedCost =
+        edge(before, order[j]) + (backward[j] - backward[i]) + edge(order[i], after);
+
+      if (reversedCost < currentCost - IMPROVEMENT_EPSILON) {
+        const segment = order.slice(i, j + 1).reverse();
+        order.splice(i, segment.length, ...segment);
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+// Move a run of 1-3 consecutive stops to another position in the path
+function applyOrOptMove(order: number[], edge: EdgeCost, lastMovable: number): boolean {
+  for (let length = 1; length <= 3; length++) {
+    for (let i = 1; i + length - 1 <= lastMovable; i++) {
+      const first = order[i];
+      const last = order[i + length - 1];
+      const before = order[i - 1];
+      const after = order[i + length];
+
+      const removalGain =
+        edge(before, first) + edge(last, after) - edge(before, after);
+
+      // Insert between order[k] and order[k + 1], outside the moved run
+      for (let k = 0; k <= lastMovable; k++) {
+        if (k >= i - 1 && k < i + length) continue;
+
+        const insertCost =
+          edge(order[k], first) + edge(last, order[k + 1]) - edge(order[k], order[k + 1]);
+
+        if (insertCost < removalGain - IMPROVEMENT_EPSILON) {
+          const segment = order.splice(i, length);
+          const target = k < i ? k + 1 : k + 1 - length;
+          order.splice(target, 0, ...segment);
+          return true;
+        }
+      }
+    }
+  }
+
+  return false;
+}
+
+// Scores a complete stop order; lower is better
+export type TourEvaluator = (order: number[]) => number;
+
+// Local search for objectives that cannot be priced leg by leg, such as time
+// windows. Every candidate is scored in full, so this is O(n^3) per pass and
+// meant for refining an order that is already good.
+export function improveTourWith(
+  evaluate: TourEvaluator,
+  initialOrder: number[],
+  { maxIterations = 1000, timeLimitMs = 2000, fixedEnd = false }: LocalSearchOptions = {}
+): LocalSearchResult {
+  let order = [...initialOrder];
+  let score = evaluate(order);
+  const lastMovable = fixedEnd ? order.length - 2 : order.length - 1;
+  const deadline = performance.now() + timeLimitMs;
+  let iterations = 0;
+
+  const tryCandidate = (candidate: number[]) => {
+    const candidateScore = evaluate(candidate);
+    if (candidateScore < score - IMPROVEMENT_EPSILON) {
+      order = candidate;
+      score = candidateScore;
+      return true;
+    }
+    return false;
+  };
+
+  const findMove = () => {
+    // Relocate one stop
+    for (let i = 1; i <= lastMovable; i++) {
+      for (let target = 1; target <= lastMovable; target++) {
+        if (target === i) continue;
+        const candidate = [...order];
+        const [stop] = candidate.splice(i, 1);
+        candidate.splice(target, 0, stop);
+        if (tryCandidate(candidate)) return true;
+      }
+    }
+
+    // Reverse a segment (2-opt)
+    for (let i = 1; i < lastMovable; i++) {
+      for (let j = i + 1; j <= lastMovable; j++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, j + 1).reverse(),
+          ...order.slice(j + 1)
+        ];
+        if (tryCandidate(candidate)) return true;
+      }
+    }
+
+    return false;
+  };
+
+  while (iterations < maxIterations && performance.now() < deadline) {
+    if (!findMove()) break;
+    iterations++;
+  }
+
+  return { order, cost: score, iterations };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { Graph } from './routeOptimization';
+import { applyTravelProfile } from './travelModes';
+
+describe('applyTravelProfile', () => {
+  const graph: Graph = {
+    points: {
+      A: { id: 'A', name: 'A', lat: 40.7, lng: -74 },
+      B: { id: 'B', name: 'B', lat: 40.71, lng: -74 }
+    },
+    connections: [
+      { from: 'A', to: 'B', distance: 2, time: 1 },
+      { from: 'A', to: 'B', distance: 2, time: 12, manualTime: true },
+      { from: 'B', to: 'A', distance: 2, time: 12, type: 'footpath', oneWay: true }
+    ]
+  };
+
+  it('derives times from the profile speeds', () => {
+    const cycling = applyTravelProfile(graph, 'cycling');
+    expect(cycling.connections.map(conn => conn.time)).toEqual([7.5, 7.5]);
+  });
+
+  it('keeps driving times entered by hand', () => {
+    const driving = applyTravelProfile(graph, 'driving');
+    expect(driving.connections.map(conn => conn.time)).toEqual([3, 12]);
+  });
+
+  it('leaves out connections the mode cannot use', () => {
+    expect(applyTravelProfile(graph, 'driving').connections).toHaveLength(2);
+    expect(applyTravelProfile(graph, 'walking').connections).toHaveLength(3);
+  });
+
+  it('lets walkers use one-way connections both ways', () => {
+    expect(applyTravelProfile(graph, 'walking').connections.every(conn => !conn.oneWay)).toBe(true);
+  });
+});
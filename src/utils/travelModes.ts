@@ -0,0 +1,100 @@
+import type { Connection, ConnectionType, Graph } from './routeOptimization';
+
+export type TravelMode = 'driving' | 'cycling' | 'walking' | 'cargo-bike';
+
+// How one kind of vehicle (or a pedestrian) moves through the graph
+export interface TravelProfile {
+  mode: TravelMode;
+  name: string;
+  speeds: Partial<Record<ConnectionType, number>>; // km/h; types without a speed are off limits
+  height?: number; // metres; connections with a lower maxHeight are off limits
+  weight?: number; // tonnes; connections with a lower maxWeight are off limits
+  ignoresOneWay?: boolean; // may use one-way connections in both directions
+  fuelPerKm?: number; // litres; none for muscle power
+  co2PerKm?: number; // grams on free-flowing roads
+}
+
+export const TRAVEL_PROFILES: Record<TravelMode, TravelProfile> = {
+  driving: {
+    mode: 'driving',
+    name: 'Driving',
+    speeds: { motorway: 90, road: 40 },
+    height: 2.6,
+    weight: 3.5,
+    fuelPerKm: 0.09,
+    co2PerKm: 240
+  },
+  cycling: {
+    mode: 'cycling',
+    name: 'Cycling',
+    speeds: { road: 16, cycleway: 18 }
+  },
+  walking: {
+    mode: 'walking',
+    name: 'Walking',
+    speeds: { road: 5, cycleway: 5, footpath: 5 },
+    ignoresOneWay: true
+  },
+  'cargo-bike': {
+    mode: 'cargo-bike',
+    name: 'Cargo bike',
+    speeds: { road: 13, cycleway: 14 },
+    weight: 0.25,
+    co2PerKm: 8 // charging the battery
+  }
+};
+
+// The profile's speed for the connection's type, capped by its speed limit
+export function connectionSpeed(
+  profile: TravelProfile,
+  connection: Pick<Connection, 'type' | 'speedLimit'>
+): number | undefined {
+  const speed = profile.speeds[connection.type ?? 'road'];
+  return speed && connection.speedLimit ? Math.min(speed, connection.speedLimit) : speed;
+}
+
+export function canUse(profile: TravelProfile, connection: Connection): boolean {
+  if (!connectionSpeed(profile, connection)) return false;
+  if (profile.height !== undefined && connection.maxHeight !== undefined && connection.maxHeight < profile.height) return false;
+  if (profile.weight !== undefined && connection.maxWeight !== undefined && connection.maxWeight < profile.weight) return false;
+  return true;
+}
+
+// Minutes to travel a connection at the profile's speed for its type
+export function profileTime(
+  profile: TravelProfile,
+  connection: Pick<Connection, 'distance' | 'type' | 'speedLimit'>
+): number {
+  return (connection.distance / (connectionSpeed(profile, connection) ?? 0)) * 60;
+}
+
+const profileGraphCache = new WeakMap<Graph, Map<TravelMode, Graph>>();
+
+// The graph as seen by one travel mode: only connections it may use, with
+// times derived from its speeds except driving times entered by hand. Cached
+// so repeated searches reuse the derived graph (and everything cached against it).
+export function applyTravelProfile(graph: Graph, mode: TravelMode | undefined): Graph {
+  if (!mode) return graph;
+
+  let byMode = profileGraphCache.get(graph);
+  if (!byMode) {
+    byMode = new Map();
+    profileGraphCache.set(graph, byMode);
+  }
+
+  if (!byMode.has(mode)) {
+    const profile = TRAVEL_PROFILES[mode];
+    byMode.set(mode, {
+      ...graph,
+      connections: graph.connections
+        .filter(conn => canUse(profile, conn))
+        .map(conn => ({
+          ...conn,
+          time: conn.manualTime && mode === 'driving' ? conn.time : profileTime(profile, conn),
+          oneWay: conn.oneWay && !profile.ignoresOneWay
+        }))
+    });
+  }
+
+  return byMode.get(mode)!;
+}
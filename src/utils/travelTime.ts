@@ -0,0 +1,92 @@
+import type { Connection, Graph } from './routeOptimization';
+
+const MINUTE_MS = 60 * 1000;
+
+export const BUCKET_MINUTES = 15;
+export const BUCKETS_PER_DAY = (24 * 60) / BUCKET_MINUTES;
+
+// Keeps a zero or negative factor from stalling the traversal loop
+const MIN_FACTOR = 0.1;
+
+// Travel-time multipliers per weekday (0 = Sunday, as in Date.getDay) and
+// 15-minute bucket of the day: 1 is free flow, 1.5 takes half as long again
+export interface SpeedProfile {
+  id: string;
+  name: string;
+  factors: number[][]; // [weekday][bucket]
+}
+
+function speedProfileOf(graph: Graph, connection: Connection): SpeedProfile | undefined {
+  return connection.speedProfile ? graph.speedProfiles?.[connection.speedProfile] : undefined;
+}
+
+export function hasSpeedProfiles(graph: Graph): boolean {
+  return graph.connections.some(conn => speedProfileOf(graph, conn));
+}
+
+function factorAt(profile: SpeedProfile, at: number): number {
+  const date = new Date(at);
+  const bucket = Math.floor((date.getHours() * 60 + date.getMinutes()) / BUCKET_MINUTES);
+  return Math.max(profile.factors[date.getDay()]?.[bucket] ?? 1, MIN_FACTOR);
+}
+
+function nextBucketStart(at: number): number {
+  const date = new Date(at);
+  date.setMinutes(Math.floor(date.getMinutes() / BUCKET_MINUTES) * BUCKET_MINUTES + BUCKET_MINUTES, 0, 0);
+  return date.getTime();
+}
+
+// Minutes to drive a connection entered at `entryTime` (epoch ms). The
+// vehicle speeds up and slows down as it passes from bucket to bucket, so
+// entering a connection later never means leaving it earlier.
+export function traversalTime(graph: Graph, connection: Connection, entryTime: number): number {
+  const profile = speedProfileOf(graph, connection);
+  if (!profile) return connection.time;
+
+  let remaining = connection.time; // free-flow minutes still to drive
+  let clock = entryTime;
+
+  while (remaining > 0) {
+    const factor = factorAt(profile, clock);
+    const bucketEnd = nextBucketStart(clock);
+    const coverable = (bucketEnd - clock) / MINUTE_MS / factor;
+
+    if (coverable >= remaining) {
+      clock += remaining * factor * MINUTE_MS;
+      remaining = 0;
+    } else {
+      remaining -= coverable;
+      clock = bucketEnd;
+    }
+  }
+
+  return (clock - entryTime) / MINUTE_MS;
+}
+
+const fastestFactorCache = new WeakMap<SpeedProfile, number>();
+
+// The lowest multiplier a connection ever gets, for bounding travel times from below
+export function fastestFactor(graph: Graph, connection: Connection): number {
+  const profile = speedProfileOf(graph, connection);
+  if (!profile) return 1;
+
+  if (!fastestFactorCache.has(profile)) {
+    const lowest = Math.min(1, ...profile.factors.flat().map(factor => Math.max(factor, MIN_FACTOR)));
+    fastestFactorCache.set(profile, lowest);
+  }
+  return fastestFactorCache.get(profile)!;
+}
+
+// Weekday rush hours (7:00-9:30 and 16:00-18:30) take 60% longer than free flow
+export function createRushHourProfile(id = 'rush-hour', name = 'Weekday rush hour'): SpeedProfile {
+  const isRushHour = (minute: number) =>
+    (minute >= 7 * 60 && minute < 9.5 * 60) || (minute >= 16 * 60 && minute < 18.5 * 60);
+
+  const factors = Array.from({ length: 7 }, (_, weekday) =>
+    Array.from({ length: BUCKETS_PER_DAY }, (_, bucket) =>
+      weekday !== 0 && weekday !== 6 && isRushHour(bucket * BUCKET_MINUTES) ? 1.6 : 1
+    )
+  );
+
+  return { id, name, factors };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { findShortestPath, Graph, RouteObjective } from './routeOptimization';
+import { turnDirection, TurnRules } from './turns';
+import { createCrossroads } from '@/test/graphs';
+
+const OBJECTIVES: RouteObjective[] = ['shortest', 'fastest', 'balanced'];
+
+const withTurns = (graph: Graph, turns: TurnRules): Graph => ({ ...graph, turns });
+
+describe('turnDirection', () => {
+  const graph = createCrossroads();
+
+  it('tells turns apart by the change of heading', () => {
+    expect(turnDirection(graph, 'S', 'C', 'N')).toBe('straight');
+    expect(turnDirection(graph, 'S', 'C', 'E')).toBe('right');
+    expect(turnDirection(graph, 'S', 'C', 'W')).toBe('left');
+    expect(turnDirection(graph, 'S', 'C', 'S')).toBe('u-turn');
+    expect(turnDirection(graph, 'SW', 'W', 'C')).toBe('right');
+  });
+});
+
+describe('turn rules', () => {
+  const crossroads = createCrossroads();
+
+  it.each(OBJECTIVES)('turns left at the crossroads when turning is free (%s)', objective => {
+    expect(findShortestPath(crossroads, 'S', 'W', objective)?.path).toEqual(['S', 'C', 'W']);
+  });
+
+  it.each(OBJECTIVES)('goes around the block to avoid a left-turn penalty (%s)', objective => {
+    const graph = withTurns(crossroads, { leftTurnPenalty: 1 });
+    expect(findShortestPath(graph, 'S', 'W', objective)?.path).toEqual(['S', 'SW', 'W']);
+  });
+
+  it.each(OBJECTIVES)('still turns left when the penalty is smaller than the detour (%s)', objective => {
+    const graph = withTurns(crossroads, { leftTurnPenalty: 0.01 });
+    expect(findShortestPath(graph, 'S', 'W', objective)?.path).toEqual(['S', 'C', 'W']);
+  });
+
+  it('adds the penalty to the travel time but not to the distance', () => {
+    const free = findShortestPath(crossroads, 'W', 'S', 'shortest')!;
+    const penalised = findShortestPath(withTurns(crossroads, { leftTurnPenalty: 0.01 }), 'W', 'S', 'shortest')!;
+
+    // W to S through C turns right, so only the way back is charged
+    expect(penalised.totalTime).toBeCloseTo(free.totalTime, 9);
+
+    const left = findShortestPath(withTurns(crossroads, { leftTurnPenalty: 0.01 }), 'S', 'W', 'shortest')!;
+    const straight = findShortestPath(crossroads, 'S', 'W', 'shortest')!;
+    expect(left.totalDistance).toBeCloseTo(straight.totalDistance, 9);
+    expect(left.totalTime).toBeCloseTo(straight.totalTime + 0.01, 9);
+  });
+
+  it.each(OBJECTIVES)('never makes a banned turn (%s)', objective => {
+    const graph = withTurns(crossroads, { banned: [{ from: 'S', via: 'C', to: 'W' }] });
+    expect(findShortestPath(graph, 'S', 'W', objective)?.path).toEqual(['S', 'SW', 'W']);
+  });
+
+  it('turns back on an arm when the only other way is banned', () => {
+    // Without the corner, the way to W is straight on to N, a U-turn there
+    // and a right turn at C
+    const withoutCorner = crossroads.connections.filter(conn => conn.from !== 'SW' && conn.to !== 'SW');
+    const graph = withTurns(
+      { ...crossroads, connections: withoutCorner },
+      { uTurnPenalty: 2, banned: [{ from: 'S', via: 'C', to: 'W' }] }
+    );
+    const route = findShortestPath(graph, 'S', 'W', 'shortest');
+
+    expect(route?.path).toEqual(['S', 'C', 'N', 'C', 'W']);
+    expect(route?.totalTime).toBeCloseTo(((0.11 * 4) / 30) * 60 + 2, 9);
+  });
+});
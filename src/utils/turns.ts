@@ -0,0 +1,67 @@
+import type { Graph } from './routeOptimization';
+import { initialBearing } from './geo';
+
+// Driving from `from` through `via` straight on to `to` is not allowed
+export interface TurnRestriction {
+  from: string;
+  via: string;
+  to: string;
+}
+
+// Extra minutes charged for turning at a point, plus turns that are banned.
+// Penalties assume right-hand traffic, where left turns cross oncoming lanes.
+// Objectives other than time weigh them as the same minutes spent on the
+// connection turned into.
+export interface TurnRules {
+  leftTurnPenalty?: number;
+  uTurnPenalty?: number;
+  banned?: TurnRestriction[];
+}
+
+export type TurnDirection = 'straight' | 'right' | 'left' | 'u-turn';
+
+// Degrees either side of straight ahead that still count as going straight,
+// and beyond which a turn counts as turning back
+const STRAIGHT_TOLERANCE = 30;
+const U_TURN_ANGLE = 150;
+
+export function hasTurnRules(graph: Graph): boolean {
+  const rules = graph.turns;
+  return Boolean(rules && (rules.leftTurnPenalty || rules.uTurnPenalty || rules.banned?.length));
+}
+
+// How a vehicle arriving at `via` from `from` turns to leave towards `to`
+export function turnDirection(graph: Graph, fromId: string, viaId: string, toId: string): TurnDirection {
+  if (fromId === toId) return 'u-turn';
+
+  const from = graph.points[fromId];
+  const via = graph.points[viaId];
+  const to = graph.points[toId];
+  if (!from || !via || !to) return 'straight';
+
+  // Signed change of heading, -180..180 with positive turning clockwise (right)
+  const angle = ((initialBearing(via, to) - initialBearing(from, via) + 540) % 360) - 180;
+
+  if (Math.abs(angle) >= U_TURN_ANGLE) return 'u-turn';
+  if (angle < -STRAIGHT_TOLERANCE) return 'left';
+  if (angle > STRAIGHT_TOLERANCE) return 'right';
+  return 'straight';
+}
+
+// Minutes added for the turn at `via`, or Infinity if it is banned
+export function turnPenalty(graph: Graph, fromId: string, viaId: string, toId: string): number {
+  const rules = graph.turns;
+  if (!rules) return 0;
+
+  const banned = rules.banned?.some(turn => turn.from === fromId && turn.via === viaId && turn.to === toId);
+  if (banned) return Infinity;
+
+  switch (turnDirection(graph, fromId, viaId, toId)) {
+    case 'u-turn':
+      return rules.uTurnPenalty ?? 0;
+    case 'left':
+      return rules.leftTurnPenalty ?? 0;
+    default:
+      return 0;
+  }
+}